@@ -0,0 +1,188 @@
+export type CookieCategory = 'necessary' | 'preferences' | 'analytics' | 'marketing';
+
+/**
+ * Exact cookie key, a key with `*` wildcards (e.g. `_ga*`) or a regular expression.
+ */
+export type CookieConsentPattern = string | RegExp;
+
+/**
+ * Attributes used when purging the cookies of a revoked category (they must match the attributes the cookies were set with).
+ */
+export type CookieConsentAttributes = {
+	path?: string;
+	domain?: string;
+};
+
+export type CookieConsentOptions = {
+	/** `block` drops writes to non-consented categories, `queue` keeps the latest write per key until consent is granted. Defaults to `block`. */
+	mode?: 'block' | 'queue';
+	/** Category of keys that match no registered pattern. Defaults to `necessary`. */
+	defaultCategory?: CookieCategory;
+	/** Categories granted from the start (`necessary` is always granted). */
+	granted?: CookieCategory[];
+};
+
+export type CookieConsentListener = (granted: CookieCategory[]) => void;
+
+type CookieConsentRule = CookieConsentAttributes & {
+	pattern: CookieConsentPattern;
+	matcher: RegExp | null;
+	category: CookieCategory;
+};
+
+/**
+ * Consent registry that maps cookie keys or patterns to categories.
+ * Attach it with `Cookies.setConsent` (or `CookieJar#setConsent`) to gate writes and purge cookies on revoke.
+ *
+ * @example
+ * const consent = new CookieConsent({ mode: 'queue' })
+ *   .register('_ga*', 'analytics', { path: '/' })
+ *   .register('theme', 'preferences');
+ * Cookies.setConsent(consent);
+ * consent.grant('analytics');
+ */
+export class CookieConsent {
+	public readonly mode: 'block' | 'queue';
+	private readonly defaultCategory: CookieCategory;
+	private readonly rules: CookieConsentRule[] = [];
+	private readonly grantedCategories = new Set<CookieCategory>(['necessary']);
+	private readonly listeners = new Set<CookieConsentListener>();
+
+	constructor(options: CookieConsentOptions = {}) {
+		this.mode = options.mode ?? 'block';
+		this.defaultCategory = options.defaultCategory ?? 'necessary';
+		for (const category of options.granted ?? []) {
+			this.grantedCategories.add(category);
+		}
+	}
+
+	/**
+	 * Maps a key or pattern to a category. Exact keys take precedence over patterns; otherwise the first matching pattern wins.
+	 *
+	 * @param {CookieConsentPattern} pattern - Exact key, `*` wildcard pattern or regular expression.
+	 * @param {CookieCategory} category - Consent category.
+	 * @param {CookieConsentAttributes} [attributes] - Path/domain used when purging these cookies.
+	 * @returns {this} The registry, for chaining.
+	 */
+	public register(pattern: CookieConsentPattern, category: CookieCategory, attributes: CookieConsentAttributes = {}): this {
+		this.rules.push({ ...attributes, pattern, matcher: CookieConsent.toMatcher(pattern), category });
+		return this;
+	}
+
+	/**
+	 * Returns the category of a cookie key.
+	 *
+	 * @param {string} key - The cookie key.
+	 * @returns {CookieCategory} Registered category, or the default category.
+	 */
+	public categoryOf(key: string): CookieCategory {
+		return this.ruleFor(key)?.category ?? this.defaultCategory;
+	}
+
+	/**
+	 * Returns the path/domain registered for a cookie key.
+	 *
+	 * @param {string} key - The cookie key.
+	 * @returns {CookieConsentAttributes} Registered attributes (empty when none).
+	 */
+	public attributesOf(key: string): CookieConsentAttributes {
+		const rule = this.ruleFor(key);
+		return rule ? { path: rule.path, domain: rule.domain } : {};
+	}
+
+	/**
+	 * Checks whether the category of a cookie key is granted.
+	 *
+	 * @param {string} key - The cookie key.
+	 * @returns {boolean} True if the cookie may be written.
+	 */
+	public isAllowed(key: string): boolean {
+		return this.isGranted(this.categoryOf(key));
+	}
+
+	/**
+	 * Checks whether a category is granted.
+	 *
+	 * @param {CookieCategory} category - Consent category.
+	 * @returns {boolean} True if granted.
+	 */
+	public isGranted(category: CookieCategory): boolean {
+		return this.grantedCategories.has(category);
+	}
+
+	/**
+	 * Returns the granted categories.
+	 *
+	 * @returns {CookieCategory[]} Granted categories, always including `necessary`.
+	 */
+	public granted(): CookieCategory[] {
+		return [...this.grantedCategories];
+	}
+
+	/**
+	 * Grants consent for categories. Attached jars flush queued writes of these categories.
+	 *
+	 * @param {...CookieCategory} categories - Categories to grant.
+	 * @returns {void}
+	 */
+	public grant(...categories: CookieCategory[]): void {
+		const before = this.grantedCategories.size;
+		for (const category of categories) {
+			this.grantedCategories.add(category);
+		}
+		if (this.grantedCategories.size !== before) this.notify();
+	}
+
+	/**
+	 * Revokes consent for categories. Attached jars delete the cookies of these categories. `necessary` cannot be revoked.
+	 *
+	 * @param {...CookieCategory} categories - Categories to revoke.
+	 * @returns {void}
+	 */
+	public revoke(...categories: CookieCategory[]): void {
+		let changed = false;
+		for (const category of categories) {
+			if (category === 'necessary') continue;
+			changed = this.grantedCategories.delete(category) || changed;
+		}
+		if (changed) this.notify();
+	}
+
+	/**
+	 * Subscribes to consent changes.
+	 *
+	 * @param {CookieConsentListener} listener - Called with the granted categories after each change.
+	 * @returns {() => void} Unsubscribe function.
+	 */
+	public subscribe(listener: CookieConsentListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private ruleFor(key: string): CookieConsentRule | undefined {
+		return this.rules.find((rule) => rule.pattern === key) ?? this.rules.find((rule) => rule.matcher?.test(key));
+	}
+
+	private notify(): void {
+		const granted = this.granted();
+		for (const listener of [...this.listeners]) {
+			try {
+				listener(granted);
+			} catch (error) {
+				console.error('[CookieConsent] Listener execution error:', error);
+			}
+		}
+	}
+
+	private static toMatcher(pattern: CookieConsentPattern): RegExp | null {
+		if (pattern instanceof RegExp) return pattern;
+		if (!pattern.includes('*')) return null;
+		const source = pattern
+			.split('*')
+			.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+			.join('.*');
+		return new RegExp(`^${source}$`);
+	}
+}
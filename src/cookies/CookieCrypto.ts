@@ -0,0 +1,146 @@
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/** Imported keys kept per algorithm; enough for a few rotated secrets across the cookies of an app. */
+const MAX_CACHED_KEYS = 16;
+/** Prepended to a secret before hashing it into a cache id, so the id never equals derived key material. */
+const KEY_ID_CONTEXT = 'cookie-crypto:key-id:';
+
+/**
+ * WebCrypto helpers for signed (HMAC-SHA-256) and encrypted (AES-GCM) cookie values.
+ * The cookie name is bound into the signature / additional data, so a value cannot be moved to another cookie.
+ */
+export class CookieCrypto {
+	/** Imported keys by secret fingerprint, least recently used first. */
+	private static readonly hmacKeys = new Map<string, Promise<CryptoKey>>();
+	private static readonly aesKeys = new Map<string, Promise<CryptoKey>>();
+
+	/**
+	 * Signs `payload` with the first secret.
+	 * @returns {Promise<string>} `payload.signature` (base64url signature).
+	 */
+	public static async sign(name: string, payload: string, secrets: string[]): Promise<string> {
+		const key = await this.getHmacKey(this.primarySecret(secrets));
+		const signature = await this.subtle.sign('HMAC', key, textEncoder.encode(`${name}=${payload}`));
+		return `${payload}.${this.toBase64Url(new Uint8Array(signature))}`;
+	}
+
+	/**
+	 * Verifies a signed value against every secret (newest first).
+	 * @returns {Promise<string | null>} The payload, or null if no secret matches.
+	 */
+	public static async unsign(name: string, signed: string, secrets: string[]): Promise<string | null> {
+		const separator = signed.lastIndexOf('.');
+		if (separator < 0) return null;
+		const payload = signed.slice(0, separator);
+		const signature = this.fromBase64Url(signed.slice(separator + 1));
+		if (!signature) return null;
+
+		for (const secret of secrets) {
+			const key = await this.getHmacKey(secret);
+			if (await this.subtle.verify('HMAC', key, signature, textEncoder.encode(`${name}=${payload}`))) {
+				return payload;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Encrypts `payload` with the first secret.
+	 * @returns {Promise<string>} `iv.ciphertext` (base64url parts).
+	 */
+	public static async encrypt(name: string, payload: string, secrets: string[]): Promise<string> {
+		const key = await this.getAesKey(this.primarySecret(secrets));
+		const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+		const ciphertext = await this.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: textEncoder.encode(name) }, key, textEncoder.encode(payload));
+		return `${this.toBase64Url(iv)}.${this.toBase64Url(new Uint8Array(ciphertext))}`;
+	}
+
+	/**
+	 * Decrypts a value with every secret (newest first).
+	 * @returns {Promise<string | null>} The payload, or null if decryption/authentication fails.
+	 */
+	public static async decrypt(name: string, encrypted: string, secrets: string[]): Promise<string | null> {
+		const [ivPart, dataPart, ...rest] = encrypted.split('.');
+		if (ivPart === undefined || dataPart === undefined || rest.length > 0) return null;
+		const iv = this.fromBase64Url(ivPart);
+		const data = this.fromBase64Url(dataPart);
+		if (!iv || !data) return null;
+
+		for (const secret of secrets) {
+			const key = await this.getAesKey(secret);
+			try {
+				const plaintext = await this.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: textEncoder.encode(name) }, key, data);
+				return textDecoder.decode(plaintext);
+			} catch {
+				// Wrong secret or tampered value, try the next one.
+			}
+		}
+		return null;
+	}
+
+	private static get subtle(): SubtleCrypto {
+		const subtle = globalThis.crypto?.subtle;
+		if (!subtle) {
+			throw new Error('WebCrypto (crypto.subtle) is not available in this environment.');
+		}
+		return subtle;
+	}
+
+	private static primarySecret(secrets: string[]): string {
+		const [secret] = secrets;
+		if (!secret) {
+			throw new Error('At least one cookie secret is required.');
+		}
+		return secret;
+	}
+
+	private static getHmacKey(secret: string): Promise<CryptoKey> {
+		return this.getCachedKey(this.hmacKeys, secret, () =>
+			this.subtle.importKey('raw', textEncoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+		);
+	}
+
+	private static getAesKey(secret: string): Promise<CryptoKey> {
+		return this.getCachedKey(this.aesKeys, secret, () =>
+			this.subtle
+				.digest('SHA-256', textEncoder.encode(secret))
+				.then((digest) => this.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']))
+		);
+	}
+
+	/**
+	 * Returns the imported key of a secret from a small LRU cache. Entries are keyed by a SHA-256 fingerprint instead of
+	 * the secret, and rotated-out secrets fall out of the cache after `MAX_CACHED_KEYS` newer ones.
+	 */
+	private static async getCachedKey(cache: Map<string, Promise<CryptoKey>>, secret: string, importKey: () => Promise<CryptoKey>): Promise<CryptoKey> {
+		const fingerprint = await this.subtle.digest('SHA-256', textEncoder.encode(`${KEY_ID_CONTEXT}${secret}`));
+		const id = this.toBase64Url(new Uint8Array(fingerprint));
+		const key = cache.get(id) ?? importKey();
+		// Re-insert to mark the key as most recently used.
+		cache.delete(id);
+		cache.set(id, key);
+		if (cache.size > MAX_CACHED_KEYS) {
+			const [oldest] = cache.keys();
+			if (oldest !== undefined) cache.delete(oldest);
+		}
+		return key;
+	}
+
+	private static toBase64Url(bytes: Uint8Array): string {
+		let binary = '';
+		for (const byte of bytes) binary += String.fromCharCode(byte);
+		return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+	}
+
+	private static fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+		try {
+			const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+			const bytes = new Uint8Array(binary.length);
+			for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+			return bytes;
+		} catch {
+			return null;
+		}
+	}
+}
@@ -0,0 +1,647 @@
+import { ValueCodecs, type ValueCodec } from '../valueCodec/ValueCodec.js';
+import { CookieCrypto } from './CookieCrypto.js';
+import type { CookieConsent } from './CookieConsent.js';
+import { Validation, type ValueValidator } from '../valueValidator/ValueValidator.js';
+
+export type CookieSameSite = 'Strict' | 'Lax' | 'None';
+export type CookiePriority = 'Low' | 'Medium' | 'High';
+
+/**
+ * Cookie attributes shared by `Cookies` (browser) and `CookieJar` (server).
+ */
+export type CookieOptions = {
+	expires?: Date | number;
+	maxAge?: number; // seconds
+	path?: string;
+	domain?: string;
+	secure?: boolean;
+	sameSite?: CookieSameSite;
+	/** Partitioned (CHIPS) attribute; requires `secure`. */
+	partitioned?: boolean;
+	priority?: CookiePriority;
+	codec?: ValueCodec;
+	/** Splits values over the 4096-byte limit across `key.0`, `key.1`, … cookies plus a manifest in `key`. */
+	chunked?: boolean;
+};
+
+export type CookieReadOptions = {
+	codec?: ValueCodec;
+};
+
+export type CookieValidatedReadOptions<T> = CookieReadOptions & {
+	/** Returned instead of null when the cookie is missing or fails validation. */
+	fallback?: T;
+};
+
+/**
+ * One secret, or a list for key rotation: the first one signs/encrypts, all of them are accepted when reading.
+ */
+export type CookieSecrets = string | string[];
+
+export type CookieSecureReadOptions = CookieReadOptions & {
+	secrets: CookieSecrets;
+};
+
+export type CookieSecureWriteOptions = CookieOptions & {
+	secrets: CookieSecrets;
+};
+
+/**
+ * Result of reading a signed or encrypted cookie. `tampered` means the value exists but failed verification.
+ */
+export type CookieVerification<T> = { status: 'valid'; value: T } | { status: 'missing' | 'tampered'; value: null };
+
+export type CookieErrorContext = {
+	key: string;
+	value: unknown;
+	phase: 'validation' | 'consent';
+};
+
+export type CookieErrorHandler = (error: unknown, context: CookieErrorContext) => void;
+
+export type CookieJarOptions = {
+	/** Default codec for this jar (defaults to `ValueCodecs.auto`). */
+	codec?: ValueCodec;
+	/** Receives validation failures and blocked writes (defaults to `console.warn`). */
+	onError?: CookieErrorHandler;
+	/** Consent registry that gates writes (see `setConsent`). */
+	consent?: CookieConsent;
+};
+
+/**
+ * Common cookie API implemented by `CookieJar` instances and by the static `Cookies` class,
+ * so the same code can run against `document.cookie` and against request/response headers.
+ */
+export type CookieStorage = {
+	set<T = string>(key: string, value: T, options?: CookieOptions): void;
+	get<T>(key: string, validator: ValueValidator<T>, options: CookieValidatedReadOptions<T> & { fallback: T }): T;
+	get<T>(key: string, validator: ValueValidator<T>, options?: CookieValidatedReadOptions<T>): T | null;
+	get<T = string>(key: string, options?: CookieReadOptions): T | null;
+	delete(key: string, path?: string, domain?: string): void;
+	has(key: string): boolean;
+	getAll(): Record<string, unknown>;
+	clear(path?: string, domain?: string): void;
+};
+
+const COOKIE_KEY_RE = /^[a-zA-Z0-9_-]+$/;
+const MAX_COOKIE_SIZE = 4096;
+/** Raw manifest value of a chunked cookie; `:` never appears unescaped in values written by `set`. */
+const CHUNK_MANIFEST_PREFIX = '__chunks:';
+const CHUNK_KEY_RE = /^(.+)\.(\d+)$/;
+
+/**
+ * Request-scoped cookie jar for server environments (SvelteKit hooks, Node handlers, etc.).
+ * Reads cookies from a raw `Cookie` request header and collects outgoing `Set-Cookie` header strings.
+ * Writes are visible to subsequent reads from the same jar.
+ *
+ * @example
+ * const jar = new CookieJar(request.headers.get('cookie'));
+ * jar.set('theme', 'dark', { path: '/', maxAge: 3600 });
+ * for (const header of jar.getSetCookieHeaders()) response.headers.append('Set-Cookie', header);
+ */
+export class CookieJar implements CookieStorage {
+	private readonly requestCookies: Map<string, string>;
+	private readonly responseCookies: Map<string, string>;
+	private codec: ValueCodec;
+	private onError?: CookieErrorHandler;
+	private consent?: CookieConsent;
+	private unsubscribeConsent?: () => void;
+	private readonly pendingWrites = new Map<string, { value: unknown; options: CookieOptions }>();
+
+	/**
+	 * @param {string|null} [cookieHeader] - Raw value of the `Cookie` request header.
+	 * @param {CookieJarOptions} [options] - Jar options.
+	 */
+	constructor(cookieHeader?: string | null, options: CookieJarOptions = {}) {
+		this.requestCookies = CookieJar.parseHeader(cookieHeader ?? '');
+		this.responseCookies = new Map<string, string>();
+		this.codec = options.codec ?? ValueCodecs.auto;
+		this.onError = options.onError;
+		if (options.consent) this.setConsent(options.consent);
+	}
+
+	/**
+	 * Replaces the default codec used by this jar.
+	 *
+	 * @param {ValueCodec} codec - Codec used when no per-call codec is given.
+	 * @returns {void}
+	 */
+	public setCodec(codec: ValueCodec): void {
+		this.codec = codec;
+	}
+
+	/**
+	 * Sets the handler that receives validation failures and writes blocked by consent.
+	 *
+	 * @param {CookieErrorHandler} [handler] - Error hook; pass nothing to restore the default warning.
+	 * @returns {void}
+	 */
+	public setErrorHandler(handler?: CookieErrorHandler): void {
+		this.onError = handler;
+	}
+
+	/**
+	 * Attaches a consent registry. Writes to non-consented categories are then blocked (reported through the error hook
+	 * with phase `consent`) or queued until the category is granted, and revoking a category deletes its cookies.
+	 * Deleting cookies is always allowed.
+	 *
+	 * @param {CookieConsent} [consent] - Consent registry; pass nothing to write unconditionally again.
+	 * @returns {void}
+	 */
+	public setConsent(consent?: CookieConsent): void {
+		this.unsubscribeConsent?.();
+		this.unsubscribeConsent = undefined;
+		this.pendingWrites.clear();
+		this.consent = consent;
+		if (!consent) return;
+		this.unsubscribeConsent = consent.subscribe(() => this.applyConsent());
+		this.applyConsent();
+	}
+
+	/**
+	 * Stops listening to the attached consent registry and drops writes queued for consent. Call it when a jar
+	 * ends before its `CookieConsent`, e.g. at the end of a request when one consent instance is shared by per-request jars;
+	 * otherwise the registry keeps every jar reachable. Writes are still checked against the registry afterwards.
+	 *
+	 * @returns {void}
+	 */
+	public dispose(): void {
+		this.unsubscribeConsent?.();
+		this.unsubscribeConsent = undefined;
+		this.pendingWrites.clear();
+	}
+
+	/**
+	 * Sets a cookie with the specified key, value, and options.
+	 * Encodes the value with `options.codec` or the jar codec (by default non-string values are stored as JSON).
+	 * Throws when the attributes break the `__Host-`/`__Secure-` prefix rules, `SameSite=None` or `Partitioned`
+	 * is used without `secure`, or the cookie exceeds the 4096-byte limit browsers would silently drop.
+	 * With `chunked: true` an oversized value is split across `key.0`, `key.1`, … cookies and reassembled by `get`/`has`/`getAll`.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key (alphanumeric, dash, underscore only; `__Host-`/`__Secure-` prefixes allowed).
+	 * @param {T} value - The value to store in the cookie.
+	 * @param {CookieOptions} [options] - Optional cookie attributes.
+	 * @returns {void}
+	 */
+	public set<T = string>(key: string, value: T, options: CookieOptions = {}): void {
+		if (!key || !COOKIE_KEY_RE.test(key)) {
+			throw new Error('Invalid cookie key. Key must be alphanumeric, dash or underscore.');
+		}
+
+		const expired = CookieJar.isExpired(options);
+		if (expired) {
+			this.pendingWrites.delete(key);
+		} else if (this.consent && !this.consent.isAllowed(key)) {
+			this.deferWrite(key, value, options, this.consent);
+			return;
+		}
+
+		const serializedValue = encodeURIComponent((options.codec ?? this.codec).encode(value));
+		const previousChunks = this.chunkCount(key);
+		this.batchWrites(() => {
+			if (options.chunked && !expired && encodeURIComponent(key).length + serializedValue.length > MAX_COOKIE_SIZE) {
+				this.writeChunks(key, serializedValue, options, previousChunks);
+				return;
+			}
+
+			this.writeCookie(key, serializedValue, options, expired);
+			this.removeChunks(key, options, 0, previousChunks);
+		});
+	}
+
+	/**
+	 * Retrieves the value of a cookie by key.
+	 * Decodes the value with `options.codec` or the jar codec (by default attempts to parse JSON).
+	 * When a validator (type guard or `parse`/`safeParse` schema) is given, a value of the wrong shape
+	 * is reported through the error hook and `options.fallback` (or null) is returned instead.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key to retrieve.
+	 * @param {ValueValidator<T>} [validator] - Optional validator for the decoded value.
+	 * @param {CookieValidatedReadOptions<T>} [options] - Read options.
+	 * @returns {T | null} The cookie value, parsed as type T or null if not found.
+	 */
+	public get<T>(key: string, validator: ValueValidator<T>, options: CookieValidatedReadOptions<T> & { fallback: T }): T;
+	public get<T>(key: string, validator: ValueValidator<T>, options?: CookieValidatedReadOptions<T>): T | null;
+	public get<T = string>(key: string, options?: CookieReadOptions): T | null;
+	public get<T>(key: string, validatorOrOptions?: ValueValidator<T> | CookieReadOptions, maybeOptions?: CookieValidatedReadOptions<T>): T | null {
+		const validator = Validation.isValidator<T>(validatorOrOptions) ? validatorOrOptions : undefined;
+		const options: CookieValidatedReadOptions<T> = (validator ? maybeOptions : (validatorOrOptions as CookieReadOptions | undefined)) ?? {};
+		const fallback = options.fallback ?? null;
+
+		const rawValue = this.readValue(key);
+		if (rawValue === undefined) return fallback;
+		const value = this.decodeValue(rawValue, options.codec);
+		if (!validator) return value as T;
+
+		const result = Validation.run(validator, value);
+		if (result.success) return result.data;
+		this.handleError(result.error, { key, value, phase: 'validation' });
+		return fallback;
+	}
+
+	/**
+	 * Deletes a cookie by key, optionally specifying path and domain.
+	 * Also removes the `key.N` chunks of a chunked value (as many as its head cookie records).
+	 *
+	 * @param {string} key - The cookie key to delete.
+	 * @param {string} [path] - The path attribute to match.
+	 * @param {string} [domain] - The domain attribute to match.
+	 * @returns {void}
+	 */
+	public delete(key: string, path?: string, domain?: string): void {
+		const isHostPrefixed = key.startsWith('__Host-');
+		this.set(key, '', {
+			expires: new Date(0),
+			path: isHostPrefixed ? '/' : path,
+			domain: isHostPrefixed ? undefined : domain,
+			secure: isHostPrefixed || key.startsWith('__Secure-') || undefined
+		});
+	}
+
+	/**
+	 * Checks if a cookie with the given key exists.
+	 *
+	 * @param {string} key - The cookie key to check.
+	 * @returns {boolean} True if cookie exists, false otherwise.
+	 */
+	public has(key: string): boolean {
+		return this.get(key) !== null;
+	}
+
+	/**
+	 * Retrieves all cookies as a key-value record.
+	 * Values are decoded with the jar codec.
+	 *
+	 * @returns {Record<string, unknown>} An object with all cookie keys and their values.
+	 */
+	public getAll(): Record<string, unknown> {
+		const result: Record<string, unknown> = {};
+		const cookies = this.readRawCookies();
+		for (const key of cookies.keys()) {
+			const chunkOf = CHUNK_KEY_RE.exec(key)?.[1];
+			if (chunkOf !== undefined && cookies.get(chunkOf)?.startsWith(CHUNK_MANIFEST_PREFIX)) continue;
+			const rawValue = this.readValue(key, cookies);
+			if (rawValue !== undefined) result[key] = this.decodeValue(rawValue);
+		}
+		return result;
+	}
+
+	/**
+	 * Deletes all cookies visible to this jar.
+	 * It's recommended to specify path and domain for full cleanup.
+	 *
+	 * @param {string} [path] - The path attribute to match when deleting.
+	 * @param {string} [domain] - The domain attribute to match when deleting.
+	 * @returns {void}
+	 */
+	public clear(path?: string, domain?: string): void {
+		for (const key of this.readRawCookies().keys()) {
+			if (!COOKIE_KEY_RE.test(key)) continue;
+			this.delete(key, path, domain);
+		}
+	}
+
+	/**
+	 * Sets a cookie signed with HMAC-SHA-256 (WebCrypto). The value is encoded with the codec first, then signed.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {T} value - The value to store.
+	 * @param {CookieSecureWriteOptions} options - Cookie attributes plus `secrets` (the first one signs).
+	 * @returns {Promise<void>}
+	 */
+	public async setSigned<T = string>(key: string, value: T, options: CookieSecureWriteOptions): Promise<void> {
+		const { secrets, codec, ...attributes } = options;
+		const signed = await CookieCrypto.sign(key, (codec ?? this.codec).encode(value), CookieJar.toSecretList(secrets));
+		this.set(key, signed, { ...attributes, codec: ValueCodecs.string });
+	}
+
+	/**
+	 * Reads and verifies a signed cookie.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for verification, optional codec.
+	 * @returns {Promise<CookieVerification<T>>} `valid` with the value, `missing`, or `tampered`.
+	 */
+	public async verifySigned<T = string>(key: string, options: CookieSecureReadOptions): Promise<CookieVerification<T>> {
+		const signed = this.get(key, { codec: ValueCodecs.string });
+		if (signed === null) return { status: 'missing', value: null };
+		const payload = await CookieCrypto.unsign(key, signed, CookieJar.toSecretList(options.secrets));
+		return this.toVerification<T>(payload, options.codec);
+	}
+
+	/**
+	 * Reads a signed cookie.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for verification, optional codec.
+	 * @returns {Promise<T | null>} The value, or null if missing or tampered.
+	 */
+	public async getSigned<T = string>(key: string, options: CookieSecureReadOptions): Promise<T | null> {
+		return (await this.verifySigned<T>(key, options)).value;
+	}
+
+	/**
+	 * Sets a cookie encrypted with AES-GCM (WebCrypto). The value is encoded with the codec first, then encrypted.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {T} value - The value to store.
+	 * @param {CookieSecureWriteOptions} options - Cookie attributes plus `secrets` (the first one encrypts).
+	 * @returns {Promise<void>}
+	 */
+	public async setEncrypted<T = string>(key: string, value: T, options: CookieSecureWriteOptions): Promise<void> {
+		const { secrets, codec, ...attributes } = options;
+		const encrypted = await CookieCrypto.encrypt(key, (codec ?? this.codec).encode(value), CookieJar.toSecretList(secrets));
+		this.set(key, encrypted, { ...attributes, codec: ValueCodecs.string });
+	}
+
+	/**
+	 * Reads and decrypts an encrypted cookie.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for decryption, optional codec.
+	 * @returns {Promise<CookieVerification<T>>} `valid` with the value, `missing`, or `tampered`.
+	 */
+	public async verifyEncrypted<T = string>(key: string, options: CookieSecureReadOptions): Promise<CookieVerification<T>> {
+		const encrypted = this.get(key, { codec: ValueCodecs.string });
+		if (encrypted === null) return { status: 'missing', value: null };
+		const payload = await CookieCrypto.decrypt(key, encrypted, CookieJar.toSecretList(options.secrets));
+		return this.toVerification<T>(payload, options.codec);
+	}
+
+	/**
+	 * Reads an encrypted cookie.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for decryption, optional codec.
+	 * @returns {Promise<T | null>} The value, or null if missing or tampered.
+	 */
+	public async getEncrypted<T = string>(key: string, options: CookieSecureReadOptions): Promise<T | null> {
+		return (await this.verifyEncrypted<T>(key, options)).value;
+	}
+
+	/**
+	 * Returns the `Set-Cookie` header values produced by writes on this jar, one per cookie.
+	 *
+	 * @returns {string[]} Header values ready to be appended to a response.
+	 */
+	public getSetCookieHeaders(): string[] {
+		return [...this.responseCookies.values()];
+	}
+
+	/**
+	 * Returns the current cookies as a map of decoded keys to raw (still encoded) values.
+	 * @protected
+	 */
+	protected readRawCookies(): Map<string, string> {
+		return this.requestCookies;
+	}
+
+	/**
+	 * Persists a serialized cookie. `value` is null when the cookie is being removed.
+	 * @protected
+	 */
+	protected writeRawCookie(key: string, value: string | null, cookieString: string, options: CookieOptions): void {
+		if (value === null) {
+			this.requestCookies.delete(key);
+		} else {
+			this.requestCookies.set(key, value);
+		}
+		this.responseCookies.set(`${key};${options.path ?? ''};${options.domain ?? ''}`, cookieString);
+	}
+
+	/**
+	 * Runs the raw writes of one `set` (a value, its chunks and its manifest). Subclasses can defer side effects until all are done.
+	 * @protected
+	 */
+	protected batchWrites(write: () => void): void {
+		write();
+	}
+
+	/**
+	 * Parses a `Cookie` header (or `document.cookie`) into decoded keys and raw values.
+	 * The first occurrence of a key wins, matching browser precedence.
+	 * @protected
+	 */
+	protected static parseHeader(header: string): Map<string, string> {
+		const result = new Map<string, string>();
+		for (const cookie of header.split(';').map((part) => part.trim())) {
+			const [rawKey] = cookie.split('=', 2);
+			if (!rawKey) continue;
+			const key = this.decode(rawKey.trim()).trim();
+			if (!result.has(key)) {
+				result.set(key, cookie.substring(rawKey.length + 1));
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the raw value of a cookie, reassembling chunked values. Undefined when missing or when a chunk is missing.
+	 * @protected
+	 */
+	protected readValue(key: string, cookies: Map<string, string> = this.readRawCookies()): string | undefined {
+		const rawValue = cookies.get(key);
+		if (rawValue === undefined || !rawValue.startsWith(CHUNK_MANIFEST_PREFIX)) return rawValue;
+
+		const count = Number(rawValue.slice(CHUNK_MANIFEST_PREFIX.length));
+		let value = '';
+		for (let i = 0; i < count; i++) {
+			const chunk = cookies.get(`${key}.${i}`);
+			if (chunk === undefined) return undefined;
+			value += chunk;
+		}
+		return value;
+	}
+
+	/**
+	 * Decodes a raw cookie value with the given codec (or the jar codec), falling back to the URI-decoded string.
+	 * @protected
+	 */
+	protected decodeValue(rawValue: string, codec: ValueCodec = this.codec): unknown {
+		const decodedValue = CookieJar.decode(rawValue);
+		try {
+			return codec.decode(decodedValue);
+		} catch {
+			return decodedValue;
+		}
+	}
+
+	private writeCookie(key: string, serializedValue: string, options: CookieOptions, expired = false): void {
+		CookieJar.validateAttributes(key, serializedValue, options);
+		const cookieString = CookieJar.serialize(encodeURIComponent(key), serializedValue, options);
+		this.writeRawCookie(key, expired ? null : serializedValue, cookieString, options);
+	}
+
+	private writeChunks(key: string, serializedValue: string, options: CookieOptions, previousChunks: number): void {
+		// Reserve room for the longest possible `key.N` name. Chunks are joined before URI-decoding, so they may split a %XX escape.
+		const budget = MAX_COOKIE_SIZE - encodeURIComponent(key).length - 1 - String(serializedValue.length).length;
+		const chunks: string[] = [];
+		for (let start = 0; start < serializedValue.length; start += budget) {
+			chunks.push(serializedValue.slice(start, start + budget));
+		}
+
+		const manifest = `${CHUNK_MANIFEST_PREFIX}${chunks.length}`;
+		CookieJar.validateAttributes(key, manifest, options);
+		chunks.forEach((chunk, index) => this.writeCookie(`${key}.${index}`, chunk, options));
+		this.writeCookie(key, manifest, options);
+		this.removeChunks(key, options, chunks.length, previousChunks);
+	}
+
+	/**
+	 * Number of chunks recorded in the head cookie of `key`; 0 when the value is not chunked.
+	 */
+	private chunkCount(key: string): number {
+		const rawValue = this.readRawCookies().get(key);
+		if (!rawValue?.startsWith(CHUNK_MANIFEST_PREFIX)) return 0;
+		const count = Number(rawValue.slice(CHUNK_MANIFEST_PREFIX.length));
+		return Number.isInteger(count) && count > 0 ? count : 0;
+	}
+
+	/**
+	 * Deletes the `key.N` chunk cookies with `from <= N < to` left by an earlier chunked value, using the
+	 * path/domain/secure attributes of the write. Cookies named like chunks that the head cookie does not count are kept.
+	 */
+	private removeChunks(key: string, options: CookieOptions, from: number, to: number): void {
+		const cookies = this.readRawCookies();
+		for (let index = from; index < to; index++) {
+			const chunkKey = `${key}.${index}`;
+			if (!cookies.has(chunkKey)) continue;
+			this.writeCookie(chunkKey, '', { expires: new Date(0), path: options.path, domain: options.domain, secure: options.secure }, true);
+		}
+	}
+
+	private deferWrite(key: string, value: unknown, options: CookieOptions, consent: CookieConsent): void {
+		if (consent.mode === 'queue') {
+			this.pendingWrites.set(key, { value, options });
+			return;
+		}
+		this.handleError(new Error(`No consent for cookie category "${consent.categoryOf(key)}".`), { key, value, phase: 'consent' });
+	}
+
+	/**
+	 * Flushes queued writes that are now allowed and deletes existing cookies whose category is not granted.
+	 */
+	private applyConsent(): void {
+		const consent = this.consent;
+		if (!consent) return;
+
+		for (const [key, { value, options }] of [...this.pendingWrites]) {
+			if (!consent.isAllowed(key)) continue;
+			this.pendingWrites.delete(key);
+			this.set(key, value, options);
+		}
+		for (const key of [...this.readRawCookies().keys()]) {
+			if (!COOKIE_KEY_RE.test(key) || consent.isAllowed(key)) continue;
+			const { path, domain } = consent.attributesOf(key);
+			this.delete(key, path, domain);
+		}
+	}
+
+	private toVerification<T>(payload: string | null, codec: ValueCodec = this.codec): CookieVerification<T> {
+		if (payload === null) return { status: 'tampered', value: null };
+		try {
+			return { status: 'valid', value: codec.decode(payload) as T };
+		} catch {
+			return { status: 'tampered', value: null };
+		}
+	}
+
+	private handleError(error: unknown, context: CookieErrorContext): void {
+		if (this.onError) {
+			this.onError(error, context);
+			return;
+		}
+
+		console.warn(`[Cookies] ${context.phase} failed for key "${context.key}":`, error);
+	}
+
+	private static serialize(encodedKey: string, encodedValue: string, options: CookieOptions): string {
+		let cookieString = `${encodedKey}=${encodedValue}`;
+
+		if (options.expires) {
+			if (typeof options.expires === 'number') {
+				const date = new Date();
+				date.setTime(date.getTime() + options.expires * 86400 * 1000);
+				cookieString += `; expires=${date.toUTCString()}`;
+			} else {
+				cookieString += `; expires=${options.expires.toUTCString()}`;
+			}
+		}
+
+		if (options.maxAge !== undefined) {
+			cookieString += `; max-age=${options.maxAge}`;
+		}
+
+		if (options.path) {
+			cookieString += `; path=${options.path}`;
+		}
+
+		if (options.domain) {
+			cookieString += `; domain=${options.domain}`;
+		}
+
+		if (options.secure) {
+			cookieString += '; secure';
+		}
+
+		if (options.sameSite) {
+			cookieString += `; SameSite=${options.sameSite}`;
+		}
+
+		if (options.partitioned) {
+			cookieString += '; Partitioned';
+		}
+
+		if (options.priority) {
+			cookieString += `; Priority=${options.priority}`;
+		}
+
+		return cookieString;
+	}
+
+	private static validateAttributes(key: string, encodedValue: string, options: CookieOptions): void {
+		if (key.startsWith('__Secure-') && !options.secure) {
+			throw new Error(`Cookie "${key}" uses the __Secure- prefix and must be set with secure: true.`);
+		}
+		if (key.startsWith('__Host-') && (!options.secure || options.path !== '/' || options.domain)) {
+			throw new Error(`Cookie "${key}" uses the __Host- prefix and must be set with secure: true, path: '/' and no domain.`);
+		}
+		if (options.sameSite === 'None' && !options.secure) {
+			throw new Error(`Cookie "${key}" uses SameSite=None and must be set with secure: true.`);
+		}
+		if (options.partitioned && !options.secure) {
+			throw new Error(`Cookie "${key}" is Partitioned and must be set with secure: true.`);
+		}
+
+		const size = encodeURIComponent(key).length + encodedValue.length;
+		if (size > MAX_COOKIE_SIZE) {
+			throw new Error(`Cookie "${key}" is ${size} bytes, which exceeds the ${MAX_COOKIE_SIZE}-byte limit.`);
+		}
+	}
+
+	private static toSecretList(secrets: CookieSecrets): string[] {
+		return Array.isArray(secrets) ? secrets : [secrets];
+	}
+
+	private static isExpired(options: CookieOptions): boolean {
+		if (options.maxAge !== undefined && options.maxAge <= 0) return true;
+		if (options.expires instanceof Date) return options.expires.getTime() <= Date.now();
+		return typeof options.expires === 'number' && options.expires < 0;
+	}
+
+	private static decode(value: string): string {
+		try {
+			return decodeURIComponent(value);
+		} catch {
+			return value;
+		}
+	}
+}
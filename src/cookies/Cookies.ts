@@ -1,11 +1,126 @@
 import { BROWSER } from '../../environment.js';
+import {
+	CookieJar,
+	type CookieErrorHandler,
+	type CookieJarOptions,
+	type CookieOptions,
+	type CookieReadOptions,
+	type CookieSecureReadOptions,
+	type CookieSecureWriteOptions,
+	type CookieValidatedReadOptions,
+	type CookieVerification
+} from './CookieJar.js';
+import type { CookieConsent } from './CookieConsent.js';
+import type { ValueValidator } from '../valueValidator/ValueValidator.js';
+import type { ValueCodec } from '../valueCodec/ValueCodec.js';
+
+/**
+ * Called with the decoded new and old values of a watched cookie (null when absent).
+ */
+export type CookieChangeListener<T = string> = (newValue: T | null, oldValue: T | null) => void;
+
+type CookieWatcher = {
+	key: string;
+	listener: CookieChangeListener<unknown>;
+	codec?: ValueCodec;
+};
+
+/** Minimal shape of the Cookie Store API used for change notifications. */
+type CookieChangeSource = {
+	addEventListener(type: 'change', listener: () => void): void;
+	removeEventListener(type: 'change', listener: () => void): void;
+};
+
+const POLL_INTERVAL = 1000;
+
+/**
+ * Cookie jar backed by `document.cookie`.
+ * Watches for changes via the Cookie Store `change` event, or by polling `document.cookie` where it is unavailable.
+ */
+class DocumentCookieJar extends CookieJar {
+	private readonly watchers = new Set<CookieWatcher>();
+	private snapshot = new Map<string, string>();
+	private stopWatching?: () => void;
+	/** True while a multi-cookie write is in progress, so watchers never see a value with only some chunks written. */
+	private batching = false;
+	private readonly checkForChanges = (): void => {
+		const previous = this.snapshot;
+		const current = this.readRawCookies();
+		this.snapshot = current;
+
+		for (const watcher of [...this.watchers]) {
+			const oldRaw = this.readValue(watcher.key, previous);
+			const newRaw = this.readValue(watcher.key, current);
+			if (oldRaw === newRaw) continue;
+			try {
+				watcher.listener(
+					newRaw === undefined ? null : this.decodeValue(newRaw, watcher.codec),
+					oldRaw === undefined ? null : this.decodeValue(oldRaw, watcher.codec)
+				);
+			} catch (error) {
+				console.error('[Cookies] Listener execution error:', error);
+			}
+		}
+	};
+
+	public watch(watcher: CookieWatcher): () => void {
+		if (this.watchers.size === 0) {
+			this.startWatching();
+		}
+		this.watchers.add(watcher);
+		return () => {
+			if (!this.watchers.delete(watcher) || this.watchers.size > 0) return;
+			this.stopWatching?.();
+			this.stopWatching = undefined;
+		};
+	}
+
+	protected override readRawCookies(): Map<string, string> {
+		return CookieJar.parseHeader(document.cookie);
+	}
+
+	protected override writeRawCookie(_key: string, _value: string | null, cookieString: string): void {
+		document.cookie = cookieString;
+		// Report same-tab writes right away instead of waiting for the next event or poll.
+		if (this.watchers.size > 0 && !this.batching) this.checkForChanges();
+	}
+
+	protected override batchWrites(write: () => void): void {
+		if (this.batching) {
+			write();
+			return;
+		}
+		this.batching = true;
+		try {
+			write();
+		} finally {
+			this.batching = false;
+		}
+		if (this.watchers.size > 0) this.checkForChanges();
+	}
+
+	private startWatching(): void {
+		this.snapshot = this.readRawCookies();
+		const cookieStore = (globalThis as { cookieStore?: CookieChangeSource }).cookieStore;
+		if (cookieStore && typeof cookieStore.addEventListener === 'function') {
+			cookieStore.addEventListener('change', this.checkForChanges);
+			this.stopWatching = () => cookieStore.removeEventListener('change', this.checkForChanges);
+			return;
+		}
+		const timer = setInterval(this.checkForChanges, POLL_INTERVAL);
+		this.stopWatching = () => clearInterval(timer);
+	}
+}
 
 /**
  * Utility class for managing cookies in the browser environment.
  * Supports setting, getting, deleting, checking, and clearing cookies.
  * All methods are static and operate without creating instances.
+ * For server-side code use `CookieJar` (or `Cookies.fromHeader`), which exposes the same API.
  */
 export class Cookies {
+	private static readonly jar = new DocumentCookieJar();
+
 	/**
 	 * Checks if cookies are supported in the current environment.
 	 * @returns {boolean} True if running in browser and cookies are enabled.
@@ -15,9 +130,58 @@ export class Cookies {
 		return BROWSER && typeof document !== 'undefined' && navigator.cookieEnabled;
 	}
 
+	/**
+	 * Creates a request-scoped cookie jar from a raw `Cookie` request header.
+	 *
+	 * @param {string|null} [cookieHeader] - Raw value of the `Cookie` header.
+	 * @param {CookieJarOptions} [options] - Jar options.
+	 * @returns {CookieJar} Jar with the same get/set/delete API that collects `Set-Cookie` headers.
+	 */
+	public static fromHeader(cookieHeader?: string | null, options?: CookieJarOptions): CookieJar {
+		return new CookieJar(cookieHeader, options);
+	}
+
+	/**
+	 * Sets the default value codec for browser cookies.
+	 *
+	 * @param {ValueCodec} codec - Codec used when no per-call codec is given.
+	 * @returns {void}
+	 */
+	public static setCodec(codec: ValueCodec): void {
+		this.jar.setCodec(codec);
+	}
+
+	/**
+	 * Sets the handler that receives validation failures of `get` and writes blocked by consent (defaults to `console.warn`).
+	 *
+	 * @param {CookieErrorHandler} [handler] - Error hook; pass nothing to restore the default warning.
+	 * @returns {void}
+	 */
+	public static setErrorHandler(handler?: CookieErrorHandler): void {
+		this.jar.setErrorHandler(handler);
+	}
+
+	/**
+	 * Attaches a consent registry: writes to non-consented categories are blocked or queued (see `CookieConsent` `mode`),
+	 * queued writes are flushed on `grant`, and `revoke` deletes the cookies of the revoked categories.
+	 *
+	 * @param {CookieConsent} [consent] - Consent registry; pass nothing to write unconditionally again.
+	 * @returns {void}
+	 */
+	public static setConsent(consent?: CookieConsent): void {
+		if (!this.isSupported()) {
+			console.warn('Cookies are not supported in this browser.');
+			return;
+		}
+
+		this.jar.setConsent(consent);
+	}
+
 	/**
 	 * Sets a cookie with the specified key, value, and options.
-	 * Serializes non-string values as JSON.
+	 * Serializes non-string values as JSON unless another codec is configured.
+	 * Throws on `__Host-`/`__Secure-` prefix violations, `SameSite=None`/`Partitioned` without `secure`, and cookies over 4096 bytes
+	 * (unless `chunked` is set).
 	 *
 	 * @template T
 	 * @param {string} key - The cookie key (alphanumeric, dash, underscore only).
@@ -28,105 +192,158 @@ export class Cookies {
 	 * @param {string} [options.path] - Cookie path.
 	 * @param {string} [options.domain] - Cookie domain.
 	 * @param {boolean} [options.secure] - Secure flag.
-	 * @param {'Strict'|'Lax'|'None'} [options.sameSite] - SameSite attribute.
+	 * @param {'Strict'|'Lax'|'None'} [options.sameSite] - SameSite attribute (`None` requires `secure`).
+	 * @param {boolean} [options.partitioned] - Partitioned (CHIPS) attribute (requires `secure`).
+	 * @param {'Low'|'Medium'|'High'} [options.priority] - Priority attribute.
+	 * @param {ValueCodec} [options.codec] - Codec for this write.
+	 * @param {boolean} [options.chunked] - Split values over 4096 bytes across `key.0`, `key.1`, … cookies.
 	 * @returns {void}
 	 */
-	public static set<T = string>(
-		key: string,
-		value: T,
-		options: {
-			expires?: Date | number;
-			maxAge?: number; // seconds
-			path?: string;
-			domain?: string;
-			secure?: boolean;
-			sameSite?: 'Strict' | 'Lax' | 'None';
-		} = {}
-	): void {
+	public static set<T = string>(key: string, value: T, options: CookieOptions = {}): void {
 		if (!this.isSupported()) {
 			console.warn('Cookies are not supported in this browser.');
 			return;
 		}
 
-		if (!key || !/^[a-zA-Z0-9_-]+$/.test(key)) {
-			throw new Error('Invalid cookie key. Key must be alphanumeric, dash or underscore.');
+		this.jar.set(key, value, options);
+	}
+
+	/**
+	 * Retrieves the value of a cookie by key.
+	 * Attempts to parse JSON if possible, or uses the given codec.
+	 * When a validator is given, a value of the wrong shape is reported through the error hook
+	 * and `options.fallback` (or null) is returned instead.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key to retrieve.
+	 * @param {ValueValidator<T>} [validator] - Optional type guard or `parse`/`safeParse` schema.
+	 * @param {CookieValidatedReadOptions<T>} [options] - Read options.
+	 * @returns {T | null} The cookie value, parsed as type T or null if not found.
+	 */
+	public static get<T>(key: string, validator: ValueValidator<T>, options: CookieValidatedReadOptions<T> & { fallback: T }): T;
+	public static get<T>(key: string, validator: ValueValidator<T>, options?: CookieValidatedReadOptions<T>): T | null;
+	public static get<T = string>(key: string, options?: CookieReadOptions): T | null;
+	public static get<T>(key: string, validatorOrOptions?: ValueValidator<T> | CookieReadOptions, options?: CookieValidatedReadOptions<T>): T | null {
+		if (!this.isSupported()) {
+			console.warn('Cookies are not supported in this browser.');
+			return options?.fallback ?? null;
 		}
 
-		const encodedKey = encodeURIComponent(key);
+		return this.jar.get<T>(key, validatorOrOptions as ValueValidator<T>, options);
+	}
 
-		let serializedValue: string;
-		if (typeof value === 'string') {
-			serializedValue = encodeURIComponent(value);
-		} else {
-			serializedValue = encodeURIComponent(JSON.stringify(value));
+	/**
+	 * Subscribes to changes of a cookie, whether made by this page, another tab or the server (e.g. a rotated auth cookie).
+	 * Uses the Cookie Store `change` event where available and otherwise polls `document.cookie` once per second.
+	 * Values are decoded the same way `get` does.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key to watch.
+	 * @param {CookieChangeListener<T>} listener - Called with the new and old values.
+	 * @param {CookieReadOptions} [options] - Read options (codec).
+	 * @returns {() => void} Unsubscribe function.
+	 */
+	public static subscribe<T = string>(key: string, listener: CookieChangeListener<T>, options: CookieReadOptions = {}): () => void {
+		if (!this.isSupported()) {
+			console.warn('Cookies are not supported in this browser.');
+			return () => {};
 		}
 
-		let cookieString = `${encodedKey}=${serializedValue}`;
+		return this.jar.watch({ key, listener: listener as CookieChangeListener<unknown>, codec: options.codec });
+	}
 
-		if (options.expires) {
-			if (typeof options.expires === 'number') {
-				const date = new Date();
-				date.setTime(date.getTime() + options.expires * 86400 * 1000);
-				cookieString += `; expires=${date.toUTCString()}`;
-			} else {
-				cookieString += `; expires=${options.expires.toUTCString()}`;
-			}
+	/**
+	 * Sets a cookie signed with HMAC-SHA-256. Pass several `secrets` to rotate keys: the first one signs.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {T} value - The value to store.
+	 * @param {CookieSecureWriteOptions} options - Cookie attributes plus `secrets`.
+	 * @returns {Promise<void>}
+	 */
+	public static async setSigned<T = string>(key: string, value: T, options: CookieSecureWriteOptions): Promise<void> {
+		if (!this.isSupported()) {
+			console.warn('Cookies are not supported in this browser.');
+			return;
 		}
 
-		if (options.maxAge !== undefined) {
-			cookieString += `; max-age=${options.maxAge}`;
-		}
+		await this.jar.setSigned(key, value, options);
+	}
 
-		if (options.path) {
-			cookieString += `; path=${options.path}`;
+	/**
+	 * Reads a signed cookie and reports whether it is valid, missing or tampered.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for verification, optional codec.
+	 * @returns {Promise<CookieVerification<T>>} Verification status and value.
+	 */
+	public static async verifySigned<T = string>(key: string, options: CookieSecureReadOptions): Promise<CookieVerification<T>> {
+		if (!this.isSupported()) {
+			console.warn('Cookies are not supported in this browser.');
+			return { status: 'missing', value: null };
 		}
 
-		if (options.domain) {
-			cookieString += `; domain=${options.domain}`;
-		}
+		return this.jar.verifySigned<T>(key, options);
+	}
 
-		if (options.secure) {
-			cookieString += '; secure';
-		}
+	/**
+	 * Reads a signed cookie.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for verification, optional codec.
+	 * @returns {Promise<T | null>} The value, or null if missing or tampered.
+	 */
+	public static async getSigned<T = string>(key: string, options: CookieSecureReadOptions): Promise<T | null> {
+		return (await this.verifySigned<T>(key, options)).value;
+	}
 
-		if (options.sameSite) {
-			cookieString += `; SameSite=${options.sameSite}`;
+	/**
+	 * Sets a cookie encrypted with AES-GCM. Pass several `secrets` to rotate keys: the first one encrypts.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {T} value - The value to store.
+	 * @param {CookieSecureWriteOptions} options - Cookie attributes plus `secrets`.
+	 * @returns {Promise<void>}
+	 */
+	public static async setEncrypted<T = string>(key: string, value: T, options: CookieSecureWriteOptions): Promise<void> {
+		if (!this.isSupported()) {
+			console.warn('Cookies are not supported in this browser.');
+			return;
 		}
 
-		document.cookie = cookieString;
+		await this.jar.setEncrypted(key, value, options);
 	}
 
 	/**
-	 * Retrieves the value of a cookie by key.
-	 * Attempts to parse JSON if possible.
+	 * Reads an encrypted cookie and reports whether it is valid, missing or tampered.
 	 *
 	 * @template T
-	 * @param {string} key - The cookie key to retrieve.
-	 * @returns {T | null} The cookie value, parsed as type T or null if not found.
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for decryption, optional codec.
+	 * @returns {Promise<CookieVerification<T>>} Verification status and value.
 	 */
-	public static get<T = string>(key: string): T | null {
+	public static async verifyEncrypted<T = string>(key: string, options: CookieSecureReadOptions): Promise<CookieVerification<T>> {
 		if (!this.isSupported()) {
 			console.warn('Cookies are not supported in this browser.');
-			return null;
+			return { status: 'missing', value: null };
 		}
 
-		const encodedKey = encodeURIComponent(key);
-
-		const cookies = document.cookie.split(';').map((cookie) => cookie.trim());
-		for (const cookie of cookies) {
-			const [cookieKey] = cookie.split('=', 2);
-			if (cookieKey === encodedKey) {
-				const cookieValue = cookie.substring(cookieKey.length + 1);
-				const decodedValue = decodeURIComponent(cookieValue);
+		return this.jar.verifyEncrypted<T>(key, options);
+	}
 
-				try {
-					return JSON.parse(decodedValue) as T;
-				} catch {
-					return decodedValue as T;
-				}
-			}
-		}
-		return null;
+	/**
+	 * Reads an encrypted cookie.
+	 *
+	 * @template T
+	 * @param {string} key - The cookie key.
+	 * @param {CookieSecureReadOptions} options - `secrets` accepted for decryption, optional codec.
+	 * @returns {Promise<T | null>} The value, or null if missing or tampered.
+	 */
+	public static async getEncrypted<T = string>(key: string, options: CookieSecureReadOptions): Promise<T | null> {
+		return (await this.verifyEncrypted<T>(key, options)).value;
 	}
 
 	/**
@@ -143,11 +360,7 @@ export class Cookies {
 			return;
 		}
 
-		this.set(key, '', {
-			expires: new Date(0),
-			path,
-			domain
-		});
+		this.jar.delete(key, path, domain);
 	}
 
 	/**
@@ -172,22 +385,7 @@ export class Cookies {
 			return {};
 		}
 
-		const cookies = document.cookie.split(';').map((cookie) => cookie.trim());
-		const result: Record<string, unknown> = {};
-		for (const cookie of cookies) {
-			const [key] = cookie.split('=', 2);
-			if (key) {
-				const value = cookie.substring(key.length + 1);
-				const decodedKey = decodeURIComponent(key.trim()).trim();
-				const decodedValue = decodeURIComponent(value);
-				try {
-					result[decodedKey] = JSON.parse(decodedValue);
-				} catch {
-					result[decodedKey] = decodedValue;
-				}
-			}
-		}
-		return result;
+		return this.jar.getAll();
 	}
 
 	/**
@@ -204,10 +402,6 @@ export class Cookies {
 			return;
 		}
 
-		const allCookies = this.getAll();
-		for (const key in allCookies) {
-			if (!/^[a-zA-Z0-9_-]+$/.test(key)) continue;
-			this.delete(key, path, domain);
-		}
+		this.jar.clear(path, domain);
 	}
 }
@@ -1 +1,3 @@
 export * from './Cookies';
+export * from './CookieJar';
+export * from './CookieConsent';
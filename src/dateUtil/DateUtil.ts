@@ -21,6 +21,7 @@ export type DateUtilSettings = {
 type SettingsInput = DateUtilSettings | boolean;
 
 const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const FORMAT_TOKEN_RE = /'(?:[^']|'')*'|yyyy|yy|MMM|MM|mm|dd|d|EEEE|EEE|HH|hh|h|ii|ss|SSS|a|XXX|Z|Q|WW|W/g;
 const ISO_DATE_TIME_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(?:\.\d{1,3})?)?(?:Z|[+-]\d{2}:\d{2})?)$/;
 
 /**
@@ -83,6 +84,9 @@ export class DateUtil {
 		zh: '在'
 	};
 
+	/** Month/weekday names and AM/PM labels per locale, built once with `Intl.DateTimeFormat`. */
+	private static readonly intlNames = new Map<string, string[]>();
+
 	private static _defaultLocale: string = 'en';
 	private static _localeResolver?: () => string;
 
@@ -192,29 +196,59 @@ export class DateUtil {
 		return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
 	}
 
+	/**
+	 * Formats a date with a pattern. Tokens: `yyyy`, `yy`, `MMM` (short month name), `MM` (month name), `mm` (month number),
+	 * `dd`, `d`, `EEEE`/`EEE` (weekday name), `HH`, `hh`/`h` (12-hour clock), `a` (AM/PM), `ii` (minutes), `ss`,
+	 * `SSS` (milliseconds), `XXX` (`+03:00`, `Z` for UTC), `Z` (`+0300`), `Q` (quarter), `WW`/`W` (ISO week).
+	 * Text in single quotes is copied as is; `''` is a literal quote.
+	 *
+	 * @param {string | Date} date - Date or ISO string.
+	 * @param {string} pattern - Format pattern, e.g. `EEE, d MMM yyyy 'at' h:ii a`.
+	 * @param {SettingsInput} [settings] - UTC flag or settings with locale and time zone.
+	 * @returns {string} The formatted date, or an empty string for invalid input.
+	 */
 	static toFormat(date: string | Date, pattern: string, settings?: SettingsInput): string {
 		const parsedDate = this.parseDateInput(date);
 		if (!parsedDate) return '';
 
 		const normalized = this.normalizeSettings(settings);
-		const localeData = this.resolveLocaleData(normalized.locale);
+		const { locale } = normalized;
 		const { day, month, year, hours, minutes, seconds } = this.getDateParts(parsedDate, normalized);
-		const monthIndex = normalized.utc ? parsedDate.getUTCMonth() : parsedDate.getMonth();
-		const yearShort = String(year).slice(-2);
+		const monthIndex = Number(month) - 1;
+		const hour = Number(hours);
+		// Calendar date in the target zone, as a UTC timestamp: base for the weekday, ISO week and offset.
+		const wallClock = Date.UTC(year, monthIndex, Number(day), hour, Number(minutes), Number(seconds));
+		const weekday = new Date(wallClock).getUTCDay();
+		const offset = () => Math.round((wallClock - (parsedDate.getTime() - parsedDate.getUTCMilliseconds())) / 60000);
 
 		const replacements = {
-			yyyy: String(year),
-			yy: yearShort,
-			MM: localeData.months[monthIndex] || '',
-			mm: month,
-			dd: day,
-			d: String(Number(day)),
-			HH: hours,
-			ii: minutes,
-			ss: seconds
-		} satisfies Record<string, string>;
-
-		return pattern.replace(/yyyy|yy|MM|mm|dd|d|HH|ii|ss/g, (match) => replacements[match as keyof typeof replacements]);
+			yyyy: () => String(year),
+			yy: () => String(year).slice(-2),
+			MMM: () => this.buildNamesViaIntl(locale, 'month', 'short')[monthIndex] || '',
+			MM: () => this.resolveLocaleData(locale).months[monthIndex] || '',
+			mm: () => month,
+			dd: () => day,
+			d: () => String(Number(day)),
+			EEEE: () => this.buildNamesViaIntl(locale, 'weekday', 'long')[weekday] || '',
+			EEE: () => this.buildNamesViaIntl(locale, 'weekday', 'short')[weekday] || '',
+			HH: () => hours,
+			hh: () => this.pad(hour % 12 || 12),
+			h: () => String(hour % 12 || 12),
+			a: () => this.resolveDayPeriod(locale, hour),
+			ii: () => minutes,
+			ss: () => seconds,
+			SSS: () => String(parsedDate.getUTCMilliseconds()).padStart(3, '0'),
+			XXX: () => (offset() === 0 ? 'Z' : this.formatOffset(offset(), ':')),
+			Z: () => this.formatOffset(offset(), ''),
+			Q: () => String(Math.floor(monthIndex / 3) + 1),
+			WW: () => this.pad(this.isoWeek(wallClock)),
+			W: () => String(this.isoWeek(wallClock))
+		} satisfies Record<string, () => string>;
+
+		return pattern.replace(FORMAT_TOKEN_RE, (match) => {
+			if (match.startsWith("'")) return match === "''" ? "'" : match.slice(1, -1).replace(/''/g, "'");
+			return replacements[match as keyof typeof replacements]();
+		});
 	}
 
 	private static normalizeSettings(settings?: SettingsInput): Required<DateUtilSettings> {
@@ -253,8 +287,54 @@ export class DateUtil {
 	}
 
 	private static buildMonthsViaIntl(locale: string): string[] {
-		const formatter = new Intl.DateTimeFormat(locale, { month: 'long', timeZone: 'UTC' });
-		return Array.from({ length: 12 }, (_, monthIndex) => formatter.format(new Date(Date.UTC(2024, monthIndex, 1))));
+		return this.buildNamesViaIntl(locale, 'month', 'long');
+	}
+
+	/**
+	 * Month (January first) or weekday (Sunday first) names for a locale. Cached per locale, unit and width.
+	 */
+	private static buildNamesViaIntl(locale: string, unit: 'month' | 'weekday', width: 'long' | 'short'): string[] {
+		return this.cachedNames(`${locale}|${unit}|${width}`, () => {
+			const formatter = new Intl.DateTimeFormat(locale, { [unit]: width, timeZone: 'UTC' });
+			// 2023-01-01 is a Sunday.
+			return Array.from({ length: unit === 'month' ? 12 : 7 }, (_, index) =>
+				formatter.format(unit === 'month' ? Date.UTC(2023, index, 1) : Date.UTC(2023, 0, 1 + index))
+			);
+		});
+	}
+
+	private static resolveDayPeriod(locale: string, hour: number): string {
+		const [am, pm] = this.cachedNames(`${locale}|dayPeriod`, () => {
+			const formatter = new Intl.DateTimeFormat(locale, { hour: 'numeric', hour12: true, timeZone: 'UTC' });
+			return [9, 21].map((sample) => formatter.formatToParts(Date.UTC(2023, 0, 1, sample)).find((part) => part.type === 'dayPeriod')?.value ?? '');
+		});
+		return (hour < 12 ? am : pm) || (hour < 12 ? 'AM' : 'PM');
+	}
+
+	private static cachedNames(key: string, build: () => string[]): string[] {
+		let names = this.intlNames.get(key);
+		if (!names) {
+			names = build();
+			this.intlNames.set(key, names);
+		}
+		return names;
+	}
+
+	private static formatOffset(offsetMinutes: number, separator: string): string {
+		const sign = offsetMinutes < 0 ? '-' : '+';
+		const absolute = Math.abs(offsetMinutes);
+		return `${sign}${this.pad(Math.floor(absolute / 60))}${separator}${this.pad(absolute % 60)}`;
+	}
+
+	/**
+	 * ISO 8601 week number (weeks start on Monday; week 1 contains the first Thursday of the year).
+	 */
+	private static isoWeek(timestamp: number): number {
+		const date = new Date(timestamp);
+		date.setUTCHours(0, 0, 0, 0);
+		date.setUTCDate(date.getUTCDate() + 4 - (date.getUTCDay() || 7));
+		const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+		return Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
 	}
 
 	private static normalizeLanguage(locale: string): string {
@@ -270,7 +350,7 @@ export class DateUtil {
 			hour: '2-digit',
 			minute: '2-digit',
 			second: '2-digit',
-			hour12: false
+			hourCycle: 'h23'
 		});
 
 		const parts = formatter.formatToParts(date);
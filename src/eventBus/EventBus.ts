@@ -1,83 +1,491 @@
+import { EventPatterns, type EventPatternMatch } from './EventPattern.js';
+import type { EventBusTransport, EventBusTransportMessage } from './EventBusTransport.js';
+import {
+	EventBusInspector,
+	type EventBusInspectorOptions,
+	type EventBusListenerInfo,
+	type EventBusListenerTrace,
+	type EventBusTrace,
+	type EventBusTraceSource
+} from './EventBusInspector.js';
+import { EventBusScope } from './EventBusScope.js';
+import type { EventBusOutboxAdapter, EventBusOutboxEntry } from './EventBusOutbox.js';
+import { EventBusObservable, EventBusStream, type EventBusStreamOptions } from './EventBusStream.js';
+import { UidGenerator } from '../uidGenerator/UidGenerator.js';
+import { DEV } from '../../environment.js';
+
 export type EventBusMap = Record<string, unknown>;
 type EventKey<E extends EventBusMap> = Extract<keyof E, string>;
 type ListenerPayload<E extends EventBusMap> = E[EventKey<E>];
-type InternalListener = (payload: unknown) => void | Promise<void>;
+type InternalListener = (payload: unknown, event?: string) => void | Promise<void>;
+type InternalResponder = (params: unknown, signal: AbortSignal) => unknown;
+
+type ListenerRecord = {
+	listener: InternalListener;
+	priority: number;
+	order: number;
+};
+
+type DispatchTarget = {
+	phase: 'listener' | 'any-listener';
+	name: string;
+	call: () => void | Promise<void>;
+};
+
+/** State of one dispatch: the event, its payload, the listener timeout, the errors collected so far and the inspector trace. */
+type DispatchRun = {
+	event: string;
+	payload: unknown;
+	timeout?: number;
+	errors: EventBusDispatchError[];
+	trace?: EventBusTrace;
+};
+
+type ListenerOutcome = Pick<EventBusListenerTrace, 'error' | 'timedOut'>;
+
+/** `FinalizationRegistry` (ES2021) as used for the undisposed-scope warning. */
+type ScopeRegistry = {
+	register(target: object, heldValue: string, unregisterToken: object): void;
+	unregister(unregisterToken: object): void;
+};
+
+type CollectedRecord = {
+	record: ListenerRecord;
+	/** Pattern channel the record belongs to, if any. */
+	pattern?: string;
+};
+
+type PatternChannel = {
+	matcher: RegExp;
+	records: ListenerRecord[];
+};
 
 export type EventBusListener<E extends EventBusMap, K extends EventKey<E>> = (payload: E[K]) => void | Promise<void>;
 export type EventBusAnyListener<E extends EventBusMap> = (event: EventKey<E>, payload: ListenerPayload<E>) => void | Promise<void>;
 export type EventBusPayloadFactory<E extends EventBusMap, K extends EventKey<E>> = () => E[K] | Promise<E[K]>;
 
+/** Event names of `E` matched by pattern `P` (`user:*`, `cart.**`). */
+export type EventBusPatternKeys<E extends EventBusMap, P extends string> = {
+	[K in EventKey<E>]: EventPatternMatch<K, P> extends true ? K : never;
+}[EventKey<E>];
+
+/** Resolves to `P` when it matches at least one event name, otherwise to `never` (a compile error at the call site). */
+export type EventBusPattern<E extends EventBusMap, P extends string> = [EventBusPatternKeys<E, P>] extends [never] ? never : P;
+
+/** Receives the payload and name of any matched event; checking `event` narrows `payload`. */
+export type EventBusPatternListener<E extends EventBusMap, P extends string> = (
+	...args: { [K in EventBusPatternKeys<E, P>]: [payload: E[K], event: K] }[EventBusPatternKeys<E, P>]
+) => void | Promise<void>;
+
+export type EventBusSubscribeOptions = {
+	/** Listeners with a higher priority run first; equal priorities keep subscription order. Defaults to 0. */
+	priority?: number;
+	/** Receive the buffered payloads of replayed events right away. Defaults to true. */
+	replay?: boolean;
+	/** Aborting removes the listener; an already aborted signal subscribes nothing. */
+	signal?: AbortSignal;
+};
+
+export type EventBusSubscribeAllOptions = Pick<EventBusSubscribeOptions, 'signal'>;
+
+export type EventBusOnceOptions<E extends EventBusMap, K extends EventKey<E>> = EventBusSubscribeOptions & {
+	/** Payloads rejected by the filter are skipped; the listener stays subscribed until one passes. */
+	filter?: (payload: E[K]) => boolean;
+};
+
+export type EventBusWaitForOptions<E extends EventBusMap, K extends EventKey<E>> = {
+	filter?: (payload: E[K]) => boolean;
+	/** Milliseconds to wait before rejecting with code `timeout`. */
+	timeout?: number;
+	/** Aborting rejects with code `aborted` and removes the listener. */
+	signal?: AbortSignal;
+};
+
+export type EventBusWaitErrorCode = 'timeout' | 'aborted';
+
+/**
+ * Rejection reason of `EventBus#waitFor` when the event did not arrive.
+ */
+export class EventBusWaitError extends Error {
+	readonly code: EventBusWaitErrorCode;
+	readonly event: string;
+
+	constructor(code: EventBusWaitErrorCode, event: string, message: string) {
+		super(message);
+		this.name = 'EventBusWaitError';
+		this.code = code;
+		this.event = event;
+	}
+}
+
 export type EventBusChannels<E extends EventBusMap> = Partial<{
 	[K in EventKey<E>]: EventBusListener<E, K>[];
 }>;
 
+/**
+ * `sequential` awaits listeners one after another, `parallel` starts them all at once and waits for all to settle.
+ */
+export type EventBusDispatchMode = 'sequential' | 'parallel';
+
+export type EventBusPublishOptions = {
+	/** Defaults to the bus `dispatch` option (`sequential`). */
+	mode?: EventBusDispatchMode;
+	/** Milliseconds an async listener may take before it is reported with phase `timeout`; the publish then moves on. */
+	timeout?: number;
+};
+
+/**
+ * Request name → `{ params, result }` for `request`/`respond`.
+ */
+export type EventBusRequestMap = Record<string, { params: unknown; result: unknown }>;
+type RequestKey<R extends EventBusRequestMap> = Extract<keyof R, string>;
+
+export type EventBusResponder<R extends EventBusRequestMap, K extends RequestKey<R>> = (
+	params: R[K]['params'],
+	signal: AbortSignal
+) => R[K]['result'] | Promise<R[K]['result']>;
+
+export type EventBusRequestOptions = {
+	/** Milliseconds to wait for the result before rejecting with code `timeout`. */
+	timeout?: number;
+	/** Aborting rejects the request with code `aborted`; the responder's signal is aborted too. */
+	signal?: AbortSignal;
+};
+
+export type EventBusRequestErrorCode = 'no-responder' | 'multiple-responders' | 'timeout' | 'aborted';
+
+/**
+ * Rejection reason of `EventBus#request` when the request could not be answered.
+ */
+export class EventBusRequestError extends Error {
+	readonly code: EventBusRequestErrorCode;
+	readonly request: string;
+
+	constructor(code: EventBusRequestErrorCode, request: string, message: string) {
+		super(message);
+		this.name = 'EventBusRequestError';
+		this.code = code;
+		this.request = request;
+	}
+}
+
+export type EventBusErrorPhase = 'listener' | 'any-listener' | 'timeout' | 'transport' | 'middleware' | 'outbox';
+
 export type EventBusErrorContext<E extends EventBusMap> = {
+	/** `*` when loading the outbox failed, which concerns no single event. */
 	event: EventKey<E>;
 	payload: ListenerPayload<E>;
-	phase: 'listener' | 'any-listener';
+	phase: EventBusErrorPhase;
 };
 
 export type EventBusErrorHandler<E extends EventBusMap> = (error: unknown, context: EventBusErrorContext<E>) => void;
 
+export type EventBusDispatchError = {
+	error: unknown;
+	phase: EventBusErrorPhase;
+};
+
+/**
+ * Outcome of dispatching one publish to its listeners, as seen by middleware.
+ */
+export type EventBusDispatchResult = {
+	/** Number of listeners that ran, including `subscribeAll` listeners. */
+	listeners: number;
+	/** Listener errors and timeouts (each one is also reported through `onError`). */
+	errors: EventBusDispatchError[];
+};
+
+/**
+ * Middleware context; same shape as `EventBusErrorContext` with phase `middleware`.
+ * Assigning `payload` changes what the next middleware, the listeners and remote buses receive.
+ */
+export type EventBusMiddlewareContext<E extends EventBusMap> = EventBusErrorContext<E>;
+
+/**
+ * Runs before the listeners of every `publish`. Call `next()` to continue (it resolves with the dispatch result);
+ * return without calling it to cancel the dispatch. Errors thrown here go to `onError` with phase `middleware`.
+ */
+export type EventBusMiddleware<E extends EventBusMap> = (
+	context: EventBusMiddlewareContext<E>,
+	next: () => Promise<EventBusDispatchResult>
+) => void | EventBusDispatchResult | Promise<void | EventBusDispatchResult>;
+
+export type EventBusOutboxOptions<E extends EventBusMap> = {
+	/** Where queued events are kept, e.g. `new StorageOutboxAdapter({ key: 'app:outbox' })` or `new IndexedDBOutboxAdapter()`. */
+	adapter: EventBusOutboxAdapter;
+	/**
+	 * Events that are queued until every listener has handled them. Payloads must survive the adapter's serialization.
+	 * The bus only replays and prunes entries of these events, so several buses can share one adapter.
+	 */
+	events: EventKey<E>[];
+	/** Failed dispatches after which an event is dropped (reported with phase `outbox`). Defaults to unlimited. */
+	maxRetries?: number;
+	/** Milliseconds after which a queued event is dropped, handled or not (reported with phase `outbox`). Defaults to 7 days. */
+	maxAge?: number;
+	/** Maximum number of queued events; the oldest are dropped beyond it (reported with phase `outbox`). Defaults to 100. */
+	maxEntries?: number;
+	/**
+	 * Milliseconds a bus owns an entry it is dispatching; other buses sharing the adapter (e.g. other tabs) skip it
+	 * until then. Keep it above the time listeners need. Defaults to 10 seconds.
+	 */
+	lease?: number;
+};
+
 export type EventBusOptions<E extends EventBusMap> = {
 	maxListeners?: number;
 	onError?: EventBusErrorHandler<E>;
+	/** Default dispatch mode of `publish`. */
+	dispatch?: EventBusDispatchMode;
+	/** Default listener timeout of `publish` and `emit`, in milliseconds. */
+	timeout?: number;
+	/** Per-event replay buffer sizes: `1` keeps the last payload, `n` the last n payloads. */
+	replay?: Partial<Record<EventKey<E>, number>>;
+	/** Enables the inspector from the start (see `EventBus#inspect`). */
+	inspect?: boolean | EventBusInspectorOptions;
+	/** Persists selected events until they are handled; queued events are replayed on construction. */
+	outbox?: EventBusOutboxOptions<E>;
 };
 
+const MAX_SEEN_MESSAGES = 1000;
+const OUTBOX_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+const OUTBOX_MAX_ENTRIES = 100;
+const OUTBOX_LEASE = 10_000;
+
 /**
  * A typed event bus where event names are keys of `E`, and each key defines payload type.
+ * Optional `R` maps request names to `{ params, result }` for the request/reply API.
  */
-export class EventBus<E extends EventBusMap> {
-	private channels: Map<EventKey<E>, Set<InternalListener>>;
+export class EventBus<E extends EventBusMap, R extends EventBusRequestMap = Record<never, never>> {
+	private channels: Map<EventKey<E>, ListenerRecord[]>;
+	private patternChannels: Map<string, PatternChannel>;
 	private anyListeners: Set<EventBusAnyListener<E>>;
-	private warnedChannels: Set<EventKey<E>>;
+	private warnedChannels: Set<string>;
+	private responders: Map<string, Set<InternalResponder>>;
+	private transports: Map<EventBusTransport, () => void>;
+	private seenMessages: Set<string>;
+	private replaySizes: Map<EventKey<E>, number>;
+	private replayBuffers: Map<EventKey<E>, unknown[]>;
+	private middlewares: EventBusMiddleware<E>[];
+	private inspector?: EventBusInspector;
+	private scopeRegistry?: ScopeRegistry | null;
+	private readonly outbox?: EventBusOutboxOptions<E>;
+	/** Ids of outbox entries whose dispatch is still running. */
+	private outboxPending = new Set<string>();
+	/** Adapter writes, chained so they reach storage in order. */
+	private outboxWrites: Promise<void> = Promise.resolve();
+	private outboxFlush?: Promise<void>;
+	private readonly id = UidGenerator.generateNanoId();
+	private listenerOrder = 0;
 	private readonly maxListeners: number;
 	private readonly onError?: EventBusErrorHandler<E>;
+	private readonly dispatch: EventBusDispatchMode;
+	private readonly timeout?: number;
 
 	constructor(initialChannels: EventBusChannels<E> = {}, options: EventBusOptions<E> = {}) {
-		this.channels = new Map<EventKey<E>, Set<InternalListener>>();
+		this.channels = new Map<EventKey<E>, ListenerRecord[]>();
+		this.patternChannels = new Map<string, PatternChannel>();
 		this.anyListeners = new Set<EventBusAnyListener<E>>();
-		this.warnedChannels = new Set<EventKey<E>>();
+		this.warnedChannels = new Set<string>();
+		this.responders = new Map<string, Set<InternalResponder>>();
+		this.transports = new Map<EventBusTransport, () => void>();
+		this.seenMessages = new Set<string>();
+		this.replaySizes = new Map<EventKey<E>, number>();
+		this.replayBuffers = new Map<EventKey<E>, unknown[]>();
+		this.middlewares = [];
 		this.maxListeners = options.maxListeners ?? 50;
 		this.onError = options.onError;
+		this.dispatch = options.dispatch ?? 'sequential';
+		this.timeout = options.timeout;
+		if (options.inspect) this.inspect(options.inspect === true ? {} : options.inspect);
+		this.outbox = options.outbox;
 
+		for (const [event, size] of Object.entries(options.replay ?? {}) as [EventKey<E>, number][]) {
+			this.setReplay(event, size);
+		}
 		for (const [event, listeners] of Object.entries(initialChannels) as [EventKey<E>, EventBusListener<E, EventKey<E>>[]][]) {
 			for (const listener of listeners) {
 				this.subscribe(event, listener);
 			}
 		}
+		// Loading is async, so listeners subscribed right after construction receive the replayed events.
+		if (this.outbox) void this.flushOutbox();
 	}
 
-	subscribe<K extends EventKey<E>>(event: K, listener: EventBusListener<E, K>): () => void {
-		const listeners = this.getOrCreateListeners(event);
-		listeners.add(listener as InternalListener);
-		this.warnIfMaxListenersExceeded(event, listeners.size);
-		return () => this.unsubscribe(event, listener);
+	subscribe<K extends EventKey<E>>(event: K, listener: EventBusListener<E, K>, options: EventBusSubscribeOptions = {}): () => void {
+		if (options.signal?.aborted) return () => {};
+		let records = this.channels.get(event);
+		if (!records) {
+			records = [];
+			this.channels.set(event, records);
+		}
+		const record = this.addRecord(event, records, listener as InternalListener, options);
+		const unsubscribe = EventBus.bindSignal(options.signal, () => this.unsubscribe(event, listener));
+		if (record && options.replay !== false) this.replayTo(record, records, [event], false);
+		return unsubscribe;
 	}
 
-	once<K extends EventKey<E>>(event: K, listener: EventBusListener<E, K>): () => void {
+	once<K extends EventKey<E>>(event: K, listener: EventBusListener<E, K>, options: EventBusOnceOptions<E, K> = {}): () => void {
+		const { filter, ...subscribeOptions } = options;
 		const wrapped: EventBusListener<E, K> = async (payload) => {
+			if (filter && !filter(payload)) return;
 			this.unsubscribe(event, wrapped);
 			await listener(payload);
 		};
-		return this.subscribe(event, wrapped);
+		// Keep the listener's name for the inspector.
+		Object.defineProperty(wrapped, 'name', { value: listener.name });
+		return this.subscribe(event, wrapped, subscribeOptions);
+	}
+
+	/**
+	 * Resolves with the next payload of `event` that passes `filter` (a buffered payload of a replayed event counts).
+	 * Rejects with `EventBusWaitError` on timeout or abort.
+	 */
+	waitFor<K extends EventKey<E>>(event: K, options: EventBusWaitForOptions<E, K> = {}): Promise<E[K]> {
+		const { filter, timeout, signal } = options;
+		if (signal?.aborted) {
+			return Promise.reject(new EventBusWaitError('aborted', event, `Waiting for "${event}" was aborted.`));
+		}
+
+		return new Promise<E[K]>((resolve, reject) => {
+			let settled = false;
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const settle = (): void => {
+				settled = true;
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', onAbort);
+			};
+			const onAbort = (): void => fail(new EventBusWaitError('aborted', event, `Waiting for "${event}" was aborted.`));
+
+			// A buffered payload may resolve the promise synchronously inside `once`.
+			const unsubscribe = this.once(
+				event,
+				(payload) => {
+					settle();
+					resolve(payload);
+				},
+				{ filter }
+			);
+			if (settled) return;
+
+			const fail = (error: EventBusWaitError): void => {
+				settle();
+				unsubscribe();
+				reject(error);
+			};
+			signal?.addEventListener('abort', onAbort, { once: true });
+			if (timeout !== undefined) {
+				timer = setTimeout(() => fail(new EventBusWaitError('timeout', event, `Timed out after ${timeout}ms waiting for "${event}".`)), timeout);
+			}
+		});
+	}
+
+	/**
+	 * Async iterator over the payloads of `event` (`for await (const payload of bus.stream(event))`).
+	 * Payloads arriving faster than they are consumed are buffered up to `bufferSize`, then handled by `overflow`.
+	 * Ending the loop, `return()` or aborting `signal` unsubscribes.
+	 */
+	stream<K extends EventKey<E>>(event: K, options: EventBusStreamOptions = {}): EventBusStream<E[K]> {
+		return new EventBusStream<E[K]>(event, (listener) => this.subscribe(event, listener, { signal: options.signal }), options);
+	}
+
+	/**
+	 * `Symbol.observable`-compatible view of `event`, e.g. for RxJS `from(bus.observable('user:login'))`.
+	 */
+	observable<K extends EventKey<E>>(event: K): EventBusObservable<E[K]> {
+		return new EventBusObservable<E[K]>((listener) => this.subscribe(event, listener));
+	}
+
+	/**
+	 * Sets how many of the latest payloads of `event` are kept for late subscribers (`1` = last value, `0` disables and drops the buffer).
+	 */
+	setReplay<K extends EventKey<E>>(event: K, size: number): void {
+		if (size <= 0) {
+			this.replaySizes.delete(event);
+			this.replayBuffers.delete(event);
+			return;
+		}
+		this.replaySizes.set(event, size);
+		const buffer = this.replayBuffers.get(event);
+		if (buffer && buffer.length > size) buffer.splice(0, buffer.length - size);
+	}
+
+	/**
+	 * Returns the buffered payloads of a replayed event, oldest first.
+	 */
+	getReplay<K extends EventKey<E>>(event: K): E[K][] {
+		return [...((this.replayBuffers.get(event) ?? []) as E[K][])];
 	}
 
 	unsubscribe<K extends EventKey<E>>(event: K, listener: EventBusListener<E, K>): boolean {
-		const listeners = this.channels.get(event);
-		if (!listeners) return false;
+		const records = this.channels.get(event);
+		if (!records) return false;
 
-		const removed = listeners.delete(listener as InternalListener);
-		if (listeners.size === 0) {
+		const removed = EventBus.removeRecord(records, listener as InternalListener);
+		if (records.length === 0) {
 			this.channels.delete(event);
 			this.warnedChannels.delete(event);
 		}
 		return removed;
 	}
 
-	subscribeAll(listener: EventBusAnyListener<E>): () => void {
+	/**
+	 * Subscribes to every event matching `pattern`: `*` matches one `:`/`.` separated segment (`user:*`),
+	 * `**` matches any number of segments (`cart.**`). Pattern and exact listeners run together, ordered by priority.
+	 */
+	subscribePattern<P extends string>(
+		pattern: EventBusPattern<E, P>,
+		listener: EventBusPatternListener<E, P>,
+		options: EventBusSubscribeOptions = {}
+	): () => void {
+		if (options.signal?.aborted) return () => {};
+		let channel = this.patternChannels.get(pattern);
+		if (!channel) {
+			channel = { matcher: EventPatterns.compile(pattern), records: [] };
+			this.patternChannels.set(pattern, channel);
+		}
+		const record = this.addRecord(pattern, channel.records, listener as InternalListener, options);
+		const unsubscribe = EventBus.bindSignal(options.signal, () => this.unsubscribePattern(pattern, listener));
+		if (record && options.replay !== false) {
+			const matcher = channel.matcher;
+			this.replayTo(
+				record,
+				channel.records,
+				[...this.replayBuffers.keys()].filter((event) => matcher.test(event)),
+				true
+			);
+		}
+		return unsubscribe;
+	}
+
+	unsubscribePattern<P extends string>(pattern: EventBusPattern<E, P>, listener: EventBusPatternListener<E, P>): boolean {
+		const channel = this.patternChannels.get(pattern);
+		if (!channel) return false;
+
+		const removed = EventBus.removeRecord(channel.records, listener as InternalListener);
+		if (channel.records.length === 0) {
+			this.patternChannels.delete(pattern);
+			this.warnedChannels.delete(pattern);
+		}
+		return removed;
+	}
+
+	subscribeAll(listener: EventBusAnyListener<E>, options: EventBusSubscribeAllOptions = {}): () => void {
+		if (options.signal?.aborted) return () => {};
 		this.anyListeners.add(listener);
-		return () => this.unsubscribeAll(listener);
+		return EventBus.bindSignal(options.signal, () => this.unsubscribeAll(listener));
+	}
+
+	/**
+	 * Creates a group of subscriptions that are removed together by `scope.dispose()`.
+	 * In development, a scope that is garbage-collected without `dispose()` logs a warning.
+	 */
+	scope(name?: string): EventBusScope<E, R> {
+		const scope: EventBusScope<E, R> = new EventBusScope(this, name, () => this.scopeRegistry?.unregister(scope));
+		if (DEV) {
+			if (this.scopeRegistry === undefined) this.scopeRegistry = EventBus.createScopeRegistry();
+			this.scopeRegistry?.register(scope, scope.name, scope);
+		}
+		return scope;
 	}
 
 	unsubscribeAll(listener: EventBusAnyListener<E>): boolean {
@@ -92,12 +500,14 @@ export class EventBus<E extends EventBusMap> {
 		}
 
 		this.channels.clear();
+		this.patternChannels.clear();
 		this.anyListeners.clear();
 		this.warnedChannels.clear();
+		this.responders.clear();
 	}
 
 	listenerCount<K extends EventKey<E>>(event: K): number {
-		return this.channels.get(event)?.size ?? 0;
+		return this.channels.get(event)?.length ?? 0;
 	}
 
 	hasListeners<K extends EventKey<E>>(event: K): boolean {
@@ -108,58 +518,591 @@ export class EventBus<E extends EventBusMap> {
 		return [...this.channels.keys()];
 	}
 
-	async publish<K extends EventKey<E>>(event: K, payloadFactory: EventBusPayloadFactory<E, K>): Promise<E[K]> {
-		const payload = await payloadFactory();
-		await this.emitToChannelListeners(event, payload);
-		await this.emitToAnyListeners(event, payload);
-		return payload;
+	/**
+	 * Resolves the payload and runs event listeners, then `subscribeAll` listeners, using the dispatch mode.
+	 * Listener errors and timeouts go to `onError`; the returned promise resolves once every listener has settled or timed out.
+	 */
+	async publish<K extends EventKey<E>>(event: K, payloadFactory: EventBusPayloadFactory<E, K>, options: EventBusPublishOptions = {}): Promise<E[K]> {
+		// Begin the trace before the first await so the stack still points at the caller.
+		const trace = this.beginTrace(event, undefined, 'publish');
+		const started = performance.now();
+		let dispatched = false;
+		const context: EventBusMiddlewareContext<E> = { event, payload: await payloadFactory(), phase: 'middleware' };
+		const middlewares = [...this.middlewares];
+
+		const run = async (index: number): Promise<EventBusDispatchResult> => {
+			const middleware = middlewares[index];
+			if (!middleware) {
+				dispatched = true;
+				this.forward(this.createMessage(event, context.payload as E[K]));
+				const entry = this.enqueueOutbox(event, context.payload);
+				const result = await this.dispatchToListeners(event, context.payload as E[K], options, trace);
+				if (entry) this.settleOutbox(entry, result);
+				return result;
+			}
+			let result: Promise<EventBusDispatchResult> | undefined;
+			await middleware(context, () => (result ??= run(index + 1)));
+			return result ?? { listeners: 0, errors: [] };
+		};
+
+		try {
+			await run(0);
+		} catch (error) {
+			trace?.errors.push({ error, phase: 'middleware' });
+			this.handleError(error, context);
+		}
+		if (trace) {
+			trace.payload = context.payload;
+			trace.cancelled = !dispatched;
+			trace.duration = performance.now() - started;
+		}
+		return context.payload as E[K];
+	}
+
+	/**
+	 * Adds a middleware to the `publish` pipeline (in registration order). `emit` and events from transports skip middleware.
+	 */
+	use(middleware: EventBusMiddleware<E>): () => void {
+		this.middlewares.push(middleware);
+		return () => {
+			const index = this.middlewares.indexOf(middleware);
+			if (index !== -1) this.middlewares.splice(index, 1);
+		};
+	}
+
+	/**
+	 * Fire-and-forget dispatch: calls every listener synchronously in order and returns without awaiting async listeners.
+	 * Their rejections and timeouts are still reported through `onError`.
+	 */
+	emit<K extends EventKey<E>>(event: K, payload: E[K]): void {
+		const run: DispatchRun = { event, payload, timeout: this.timeout, errors: [], trace: this.beginTrace(event, payload, 'emit') };
+		const started = performance.now();
+		this.forward(this.createMessage(event, payload));
+		this.bufferPayload(event, payload);
+		const entry = this.enqueueOutbox(event, payload);
+		const targets = this.collectTargets(event, payload);
+		const pending = targets.map((target) => this.invoke(target, run));
+		if (run.trace) run.trace.duration = performance.now() - started;
+		if (entry) void Promise.all(pending).then(() => this.settleOutbox(entry, { listeners: targets.length, errors: run.errors }));
+	}
+
+	/**
+	 * Dispatches the events queued in the outbox again (runs automatically on construction; call it to retry failed events).
+	 * Replayed events skip middleware and transports. Resolves once every queued event was tried.
+	 */
+	flushOutbox(): Promise<void> {
+		this.outboxFlush ??= this.replayOutbox().finally(() => {
+			this.outboxFlush = undefined;
+		});
+		return this.outboxFlush;
 	}
 
-	private getOrCreateListeners<K extends EventKey<E>>(event: K): Set<InternalListener> {
-		let listeners = this.channels.get(event);
-		if (!listeners) {
-			listeners = new Set<InternalListener>();
-			this.channels.set(event, listeners);
+	/**
+	 * Enables the inspector (once; later calls return the same instance): records recent dispatches with payload,
+	 * per-listener timing, errors and the originating stack, lists listeners and exports the history as JSON.
+	 */
+	inspect(options: EventBusInspectorOptions = {}): EventBusInspector {
+		this.inspector ??= new EventBusInspector(options, (event) => this.describeListeners(event));
+		return this.inspector;
+	}
+
+	/**
+	 * Connects a transport (see `BroadcastChannelTransport`, `WindowMessageTransport`, `MessagePortTransport`):
+	 * local `publish`/`emit` calls are forwarded to remote buses, and remote events are delivered to local listeners
+	 * and relayed to the other transports. Each publish is delivered at most once per bus, so loops and echoes are dropped.
+	 * Payloads must be structured-clone-safe; send failures are reported through `onError` with phase `transport`.
+	 */
+	connect(transport: EventBusTransport): () => void {
+		if (!this.transports.has(transport)) {
+			this.transports.set(
+				transport,
+				transport.subscribe((message) => this.receive(message, transport))
+			);
 		}
-		return listeners;
+		return () => this.disconnect(transport);
 	}
 
-	private warnIfMaxListenersExceeded(event: EventKey<E>, size: number): void {
-		if (size <= this.maxListeners || this.warnedChannels.has(event)) return;
-		this.warnedChannels.add(event);
-		console.warn(`[EventBus] Max listeners warning for event "${event}": ${size} listeners attached (limit: ${this.maxListeners}).`);
+	/**
+	 * Stops exchanging events over a transport and closes it.
+	 */
+	disconnect(transport: EventBusTransport): boolean {
+		const unsubscribe = this.transports.get(transport);
+		if (!unsubscribe) return false;
+		unsubscribe();
+		transport.close?.();
+		this.transports.delete(transport);
+		return true;
+	}
+
+	/**
+	 * Registers the responder for a request name. A request needs exactly one responder:
+	 * with none or several registered, `request` rejects with `no-responder` / `multiple-responders`.
+	 */
+	respond<K extends RequestKey<R>>(name: K, responder: EventBusResponder<R, K>): () => void {
+		let responders = this.responders.get(name);
+		if (!responders) {
+			responders = new Set();
+			this.responders.set(name, responders);
+		}
+		responders.add(responder as InternalResponder);
+		return () => {
+			responders.delete(responder as InternalResponder);
+			if (responders.size === 0 && this.responders.get(name) === responders) this.responders.delete(name);
+		};
 	}
 
-	private async emitToChannelListeners<K extends EventKey<E>>(event: K, payload: E[K]): Promise<void> {
-		const listeners = this.channels.get(event);
-		if (!listeners || listeners.size === 0) return;
+	hasResponder<K extends RequestKey<R>>(name: K): boolean {
+		return (this.responders.get(name)?.size ?? 0) > 0;
+	}
 
-		for (const listener of [...listeners]) {
-			try {
-				await listener(payload);
-			} catch (error) {
-				this.handleError(error, { event, payload, phase: 'listener' });
+	/**
+	 * Asks the single responder of `name` and resolves with its result. Rejects with `EventBusRequestError`
+	 * when there is no responder or more than one, on timeout and on abort; responder errors are passed through.
+	 */
+	request<K extends RequestKey<R>>(name: K, params: R[K]['params'], options: EventBusRequestOptions = {}): Promise<R[K]['result']> {
+		const responders = [...(this.responders.get(name) ?? [])];
+		const [responder] = responders;
+		if (!responder) {
+			return Promise.reject(new EventBusRequestError('no-responder', name, `No responder registered for request "${name}".`));
+		}
+		if (responders.length > 1) {
+			return Promise.reject(
+				new EventBusRequestError('multiple-responders', name, `Request "${name}" has ${responders.length} responders; expected exactly one.`)
+			);
+		}
+		const { signal, timeout } = options;
+		if (signal?.aborted) {
+			return Promise.reject(new EventBusRequestError('aborted', name, `Request "${name}" was aborted.`));
+		}
+
+		const controller = new AbortController();
+		return new Promise<R[K]['result']>((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const cleanup = (): void => {
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', onAbort);
+			};
+			const fail = (error: EventBusRequestError): void => {
+				cleanup();
+				controller.abort(error);
+				reject(error);
+			};
+			const onAbort = (): void => fail(new EventBusRequestError('aborted', name, `Request "${name}" was aborted.`));
+
+			signal?.addEventListener('abort', onAbort, { once: true });
+			if (timeout !== undefined) {
+				timer = setTimeout(() => fail(new EventBusRequestError('timeout', name, `Request "${name}" timed out after ${timeout}ms.`)), timeout);
+			}
+			Promise.resolve()
+				.then(() => responder(params, controller.signal))
+				.then(
+					(result) => {
+						cleanup();
+						resolve(result as R[K]['result']);
+					},
+					(error: unknown) => {
+						cleanup();
+						reject(error);
+					}
+				);
+		});
+	}
+
+	private async dispatchToListeners<K extends EventKey<E>>(
+		event: K,
+		payload: E[K],
+		options: EventBusPublishOptions,
+		trace?: EventBusTrace
+	): Promise<EventBusDispatchResult> {
+		this.bufferPayload(event, payload);
+		const targets = this.collectTargets(event, payload);
+		const run: DispatchRun = { event, payload, timeout: options.timeout ?? this.timeout, errors: [], trace };
+
+		if ((options.mode ?? this.dispatch) === 'parallel') {
+			await Promise.allSettled(targets.map((target) => this.invoke(target, run)));
+		} else {
+			for (const target of targets) {
+				await this.invoke(target, run);
 			}
 		}
+		return { listeners: targets.length, errors: run.errors };
 	}
 
-	private async emitToAnyListeners<K extends EventKey<E>>(event: K, payload: E[K]): Promise<void> {
-		if (this.anyListeners.size === 0) return;
+	/**
+	 * Prunes the queue, then claims (leases) the entries no other bus is dispatching and dispatches them oldest first.
+	 */
+	private async replayOutbox(): Promise<void> {
+		const adapter = this.outbox?.adapter;
+		if (!adapter) return;
+		let entries: EventBusOutboxEntry[];
+		try {
+			await this.outboxWrites;
+			await this.pruneOutbox(adapter);
+			entries = [...(await adapter.claim(this.id, this.outboxLeaseUntil(), this.outbox?.events ?? []))].sort((a, b) => a.createdAt - b.createdAt);
+		} catch (error) {
+			this.handleError(error, { event: '*' as EventKey<E>, payload: undefined as ListenerPayload<E>, phase: 'outbox' });
+			return;
+		}
+		for (const entry of entries) {
+			if (this.outboxPending.has(entry.id)) continue;
+			this.outboxPending.add(entry.id);
+			const result = await this.dispatchToListeners(entry.event as EventKey<E>, entry.payload as E[EventKey<E>], {});
+			this.settleOutbox(entry, result);
+		}
+	}
+
+	/**
+	 * Drops entries older than `maxAge` and the oldest entries beyond `maxEntries`, skipping entries leased for dispatch.
+	 * Only entries of this bus's outbox events are counted and dropped.
+	 */
+	private async pruneOutbox(adapter: EventBusOutboxAdapter): Promise<void> {
+		const maxAge = this.outbox?.maxAge ?? OUTBOX_MAX_AGE;
+		const maxEntries = this.outbox?.maxEntries ?? OUTBOX_MAX_ENTRIES;
+		const events: readonly string[] = this.outbox?.events ?? [];
+		const entries = (await adapter.load()).filter((entry) => events.includes(entry.event)).sort((a, b) => a.createdAt - b.createdAt);
+		const now = Date.now();
+		const excess = entries.length - maxEntries;
+		for (const [index, entry] of entries.entries()) {
+			if (this.outboxPending.has(entry.id) || (entry.leaseUntil ?? 0) > now) continue;
+			const reason =
+				now - entry.createdAt > maxAge ? `it is older than ${maxAge}ms` : index < excess ? `the queue exceeds ${maxEntries} entries` : null;
+			if (!reason) continue;
+			await adapter.remove(entry.id);
+			this.reportOutbox(entry, `Dropped "${entry.event}" from the outbox because ${reason}.`);
+		}
+	}
 
-		for (const listener of [...this.anyListeners]) {
+	private enqueueOutbox(event: EventKey<E>, payload: unknown): EventBusOutboxEntry | undefined {
+		if (!this.outbox?.events.includes(event)) return undefined;
+		const entry: EventBusOutboxEntry = {
+			id: UidGenerator.generateNanoId(),
+			event,
+			payload,
+			retries: 0,
+			createdAt: Date.now(),
+			owner: this.id,
+			leaseUntil: this.outboxLeaseUntil()
+		};
+		this.outboxPending.add(entry.id);
+		this.writeOutbox(entry, (adapter) => adapter.save(entry));
+		return entry;
+	}
+
+	/**
+	 * Removes an entry once at least one listener ran and none failed. Otherwise the entry is released for the next replay:
+	 * unchanged when nobody listened, with an incremented retry count when a listener failed (until `maxRetries` is exceeded).
+	 */
+	private settleOutbox(entry: EventBusOutboxEntry, result: EventBusDispatchResult): void {
+		this.outboxPending.delete(entry.id);
+		const released: EventBusOutboxEntry = { ...entry, owner: undefined, leaseUntil: undefined };
+		if (result.errors.length === 0) {
+			if (result.listeners > 0) this.writeOutbox(entry, (adapter) => adapter.remove(entry.id));
+			else this.releaseOutbox(released);
+			return;
+		}
+		const retries = entry.retries + 1;
+		const { maxRetries } = this.outbox ?? {};
+		if (maxRetries !== undefined && retries > maxRetries) {
+			this.writeOutbox(entry, (adapter) => adapter.remove(entry.id));
+			this.reportOutbox(entry, `Dropped "${entry.event}" from the outbox after ${retries} failed dispatches.`);
+			return;
+		}
+		this.releaseOutbox({ ...released, retries });
+	}
+
+	/**
+	 * Stores an entry that stays queued, then prunes: released entries are the ones that count towards the caps.
+	 */
+	private releaseOutbox(entry: EventBusOutboxEntry): void {
+		this.writeOutbox(entry, async (adapter) => {
+			await adapter.save(entry);
+			await this.pruneOutbox(adapter);
+		});
+	}
+
+	private outboxLeaseUntil(): number {
+		return Date.now() + (this.outbox?.lease ?? OUTBOX_LEASE);
+	}
+
+	private reportOutbox(entry: EventBusOutboxEntry, message: string): void {
+		this.handleError(new Error(message), { event: entry.event as EventKey<E>, payload: entry.payload as ListenerPayload<E>, phase: 'outbox' });
+	}
+
+	private writeOutbox(entry: EventBusOutboxEntry, write: (adapter: EventBusOutboxAdapter) => void | Promise<void>): void {
+		const adapter = this.outbox?.adapter;
+		if (!adapter) return;
+		this.outboxWrites = this.outboxWrites
+			.then(() => write(adapter))
+			.catch((error: unknown) => {
+				this.handleError(error, { event: entry.event as EventKey<E>, payload: entry.payload as ListenerPayload<E>, phase: 'outbox' });
+			});
+	}
+
+	private createMessage<K extends EventKey<E>>(event: K, payload: E[K]): EventBusTransportMessage {
+		const message: EventBusTransportMessage = { __eventBus: 1, source: this.id, id: UidGenerator.generateNanoId(), event, payload };
+		this.rememberMessage(message.id);
+		return message;
+	}
+
+	private forward(message: EventBusTransportMessage, except?: EventBusTransport): void {
+		for (const transport of this.transports.keys()) {
+			if (transport === except) continue;
 			try {
-				await listener(event, payload as ListenerPayload<E>);
+				transport.send(message);
 			} catch (error) {
-				this.handleError(error, { event, payload, phase: 'any-listener' });
+				this.handleError(error, { event: message.event as EventKey<E>, payload: message.payload as ListenerPayload<E>, phase: 'transport' });
+			}
+		}
+	}
+
+	private receive(message: EventBusTransportMessage, from: EventBusTransport): void {
+		if (message.source === this.id || this.seenMessages.has(message.id)) return;
+		this.rememberMessage(message.id);
+		this.forward(message, from);
+		const trace = this.beginTrace(message.event, message.payload, 'transport');
+		const started = performance.now();
+		void this.dispatchToListeners(message.event as EventKey<E>, message.payload as E[EventKey<E>], {}, trace).then(() => {
+			if (trace) trace.duration = performance.now() - started;
+		});
+	}
+
+	private beginTrace(event: string, payload: unknown, source: EventBusTraceSource): EventBusTrace | undefined {
+		const trace = this.inspector?.begin(event, source);
+		if (trace) trace.payload = payload;
+		return trace;
+	}
+
+	private rememberMessage(id: string): void {
+		this.seenMessages.add(id);
+		if (this.seenMessages.size > MAX_SEEN_MESSAGES) {
+			const [oldest] = this.seenMessages;
+			if (oldest !== undefined) this.seenMessages.delete(oldest);
+		}
+	}
+
+	private addRecord(
+		channel: string,
+		records: ListenerRecord[],
+		listener: InternalListener,
+		options: EventBusSubscribeOptions
+	): ListenerRecord | null {
+		if (records.some((record) => record.listener === listener)) return null;
+
+		const record: ListenerRecord = { listener, priority: options.priority ?? 0, order: this.listenerOrder++ };
+		const index = records.findIndex((existing) => existing.priority < record.priority);
+		records.splice(index === -1 ? records.length : index, 0, record);
+		this.warnIfMaxListenersExceeded(channel, records.length);
+		return record;
+	}
+
+	private bufferPayload<K extends EventKey<E>>(event: K, payload: E[K]): void {
+		const size = this.replaySizes.get(event);
+		if (size === undefined) return;
+		let buffer = this.replayBuffers.get(event);
+		if (!buffer) {
+			buffer = [];
+			this.replayBuffers.set(event, buffer);
+		}
+		buffer.push(payload);
+		if (buffer.length > size) buffer.shift();
+	}
+
+	/**
+	 * Delivers buffered payloads to a new listener, stopping as soon as it unsubscribes (e.g. a `once` listener).
+	 */
+	private replayTo(record: ListenerRecord, records: ListenerRecord[], events: EventKey<E>[], pattern: boolean): void {
+		for (const event of events) {
+			for (const payload of [...(this.replayBuffers.get(event) ?? [])] as E[EventKey<E>][]) {
+				if (!records.includes(record)) return;
+				void this.invoke(this.toTarget(record, pattern, event, payload), { event, payload, timeout: this.timeout, errors: [] });
 			}
 		}
 	}
 
-	private handleError<K extends EventKey<E>>(error: unknown, context: { event: K; payload: E[K]; phase: 'listener' | 'any-listener' }): void {
+	/**
+	 * Ties an unsubscribe function to `signal`: aborting unsubscribes, and unsubscribing stops listening to the signal.
+	 */
+	private static bindSignal(signal: AbortSignal | undefined, unsubscribe: () => void): () => void {
+		if (!signal) return unsubscribe;
+		signal.addEventListener('abort', unsubscribe, { once: true });
+		return () => {
+			signal.removeEventListener('abort', unsubscribe);
+			unsubscribe();
+		};
+	}
+
+	private static createScopeRegistry(): ScopeRegistry | null {
+		const Registry = (globalThis as { FinalizationRegistry?: new (cleanup: (name: string) => void) => ScopeRegistry }).FinalizationRegistry;
+		if (!Registry) return null;
+		return new Registry((name) => {
+			console.warn(`[EventBus] Scope "${name}" was garbage-collected without dispose(); its subscriptions are still registered.`);
+		});
+	}
+
+	private static removeRecord(records: ListenerRecord[], listener: InternalListener): boolean {
+		const index = records.findIndex((record) => record.listener === listener);
+		if (index === -1) return false;
+		records.splice(index, 1);
+		return true;
+	}
+
+	/**
+	 * Exact and pattern listeners for `event` (highest priority first, then in subscription order), followed by `subscribeAll` listeners.
+	 */
+	private collectTargets<K extends EventKey<E>>(event: K, payload: E[K]): DispatchTarget[] {
+		const targets = this.collectRecords(event).map(({ record, pattern }) => this.toTarget(record, pattern !== undefined, event, payload));
+		for (const listener of this.anyListeners) {
+			targets.push({ phase: 'any-listener', name: EventBus.nameOf(listener), call: () => listener(event, payload as ListenerPayload<E>) });
+		}
+		return targets;
+	}
+
+	/**
+	 * Exact and pattern records for `event`, highest priority first, then in subscription order.
+	 */
+	private collectRecords(event: string): CollectedRecord[] {
+		const collected: CollectedRecord[] = (this.channels.get(event as EventKey<E>) ?? []).map((record) => ({ record }));
+		let hasPatterns = false;
+		for (const [pattern, channel] of this.patternChannels) {
+			if (!channel.matcher.test(event)) continue;
+			hasPatterns = true;
+			for (const record of channel.records) collected.push({ record, pattern });
+		}
+		if (hasPatterns) {
+			collected.sort((a, b) => b.record.priority - a.record.priority || a.record.order - b.record.order);
+		}
+		return collected;
+	}
+
+	private toTarget<K extends EventKey<E>>(record: ListenerRecord, pattern: boolean, event: K, payload: E[K]): DispatchTarget {
+		return {
+			phase: 'listener',
+			name: EventBus.nameOf(record.listener),
+			call: () => (pattern ? record.listener(payload, event) : record.listener(payload))
+		};
+	}
+
+	/**
+	 * Listeners that would run for `event` in dispatch order, or every registered listener when `event` is omitted.
+	 */
+	private describeListeners(event?: string): EventBusListenerInfo[] {
+		const any = [...this.anyListeners].map(
+			(listener): EventBusListenerInfo => ({ channel: '*', kind: 'any', name: EventBus.nameOf(listener), priority: 0 })
+		);
+		if (event !== undefined) {
+			return [
+				...this.collectRecords(event).map(
+					({ record, pattern }): EventBusListenerInfo => ({
+						channel: pattern ?? event,
+						kind: pattern === undefined ? 'event' : 'pattern',
+						name: EventBus.nameOf(record.listener),
+						priority: record.priority
+					})
+				),
+				...any
+			];
+		}
+
+		const describe = (channel: string, kind: 'event' | 'pattern', records: ListenerRecord[]): EventBusListenerInfo[] =>
+			records.map((record) => ({ channel, kind, name: EventBus.nameOf(record.listener), priority: record.priority }));
+		return [
+			...[...this.channels].flatMap(([channel, records]) => describe(channel, 'event', records)),
+			...[...this.patternChannels].flatMap(([channel, { records }]) => describe(channel, 'pattern', records)),
+			...any
+		];
+	}
+
+	private static nameOf(listener: (...args: never[]) => unknown): string {
+		return listener.name || 'anonymous';
+	}
+
+	/**
+	 * Runs one listener, reporting synchronous errors right away. Returns a promise only for async listeners.
+	 */
+	private invoke(target: DispatchTarget, run: DispatchRun): void | Promise<void> {
+		const done = run.trace ? EventBus.traceListener(run.trace, target) : undefined;
+		let result: void | Promise<void>;
+		try {
+			result = target.call();
+		} catch (error) {
+			done?.({ error });
+			this.reportError(error, target.phase, run);
+			return;
+		}
+		if (!(result instanceof Promise)) {
+			done?.({});
+			return;
+		}
+		return this.settle(result, target.phase, run, done);
+	}
+
+	private async settle(
+		result: Promise<void>,
+		phase: DispatchTarget['phase'],
+		run: DispatchRun,
+		done?: (outcome: ListenerOutcome) => void
+	): Promise<void> {
+		const { timeout } = run;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		try {
+			if (timeout === undefined) {
+				await result;
+				done?.({});
+				return;
+			}
+			const timedOut = await Promise.race([
+				result.then(() => false),
+				new Promise<true>((resolve) => {
+					timer = setTimeout(() => resolve(true), timeout);
+				})
+			]);
+			done?.({ timedOut });
+			if (timedOut) {
+				this.reportError(new Error(`Listener for "${run.event}" timed out after ${timeout}ms.`), 'timeout', run);
+				// The dispatch no longer waits, but a later rejection still goes to `onError`.
+				result.catch((error: unknown) => {
+					this.handleError(error, { event: run.event as EventKey<E>, payload: run.payload as ListenerPayload<E>, phase });
+				});
+			}
+		} catch (error) {
+			done?.({ error });
+			this.reportError(error, phase, run);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/**
+	 * Adds a listener entry to the trace and returns the callback that records its duration and outcome.
+	 */
+	private static traceListener(trace: EventBusTrace, target: DispatchTarget): (outcome: ListenerOutcome) => void {
+		const entry: EventBusListenerTrace = { name: target.name, phase: target.phase };
+		trace.listeners.push(entry);
+		const started = performance.now();
+		return (outcome) => {
+			entry.duration = performance.now() - started;
+			if (outcome.error !== undefined) entry.error = outcome.error;
+			if (outcome.timedOut) entry.timedOut = true;
+		};
+	}
+
+	private reportError(error: unknown, phase: EventBusErrorPhase, run: DispatchRun): void {
+		run.errors.push({ error, phase });
+		run.trace?.errors.push({ error, phase });
+		this.handleError(error, { event: run.event as EventKey<E>, payload: run.payload as ListenerPayload<E>, phase });
+	}
+
+	private warnIfMaxListenersExceeded(event: string, size: number): void {
+		if (size <= this.maxListeners || this.warnedChannels.has(event)) return;
+		this.warnedChannels.add(event);
+		console.warn(`[EventBus] Max listeners warning for event "${event}": ${size} listeners attached (limit: ${this.maxListeners}).`);
+	}
+
+	private handleError(error: unknown, context: EventBusErrorContext<E>): void {
 		if (this.onError) {
 			this.onError(error, {
 				event: context.event,
-				payload: context.payload as ListenerPayload<E>,
+				payload: context.payload,
 				phase: context.phase
 			});
 			return;
@@ -0,0 +1,156 @@
+import type { EventBusDispatchError } from './EventBus.js';
+
+export type EventBusTraceSource = 'publish' | 'emit' | 'transport';
+
+export type EventBusListenerTrace = {
+	/** Function name of the listener, or `anonymous`. */
+	name: string;
+	phase: 'listener' | 'any-listener';
+	/** Milliseconds until the listener returned or its promise settled (or the timeout fired). */
+	duration?: number;
+	error?: unknown;
+	timedOut?: boolean;
+};
+
+/**
+ * One recorded dispatch. Async listeners of `emit` keep updating their entry after the trace is recorded.
+ */
+export type EventBusTrace = {
+	id: number;
+	event: string;
+	/** Payload as delivered to listeners (after middleware). */
+	payload: unknown;
+	source: EventBusTraceSource;
+	/** `Date.now()` when the dispatch started. */
+	timestamp: number;
+	/** Milliseconds until every listener settled (for `emit`, until the synchronous part returned). */
+	duration?: number;
+	/** True when middleware cancelled the dispatch. */
+	cancelled: boolean;
+	/** Stack of the `publish`/`emit` call (not captured for events received from transports). */
+	stack?: string;
+	listeners: EventBusListenerTrace[];
+	/** Listener, timeout and middleware errors of this dispatch. */
+	errors: EventBusDispatchError[];
+};
+
+export type EventBusListenerInfo = {
+	/** Event name, pattern, or `*` for `subscribeAll` listeners. */
+	channel: string;
+	kind: 'event' | 'pattern' | 'any';
+	name: string;
+	priority: number;
+};
+
+export type EventBusInspectorOptions = {
+	/** Number of dispatches kept in the history ring buffer. Defaults to 100. */
+	historySize?: number;
+	/** Capture the stack of each publish (costly in hot paths). Defaults to true. */
+	captureStack?: boolean;
+};
+
+/**
+ * Opt-in debugging aid created by `EventBus#inspect()`: keeps a ring buffer of recent dispatches with
+ * per-listener timing and errors, lists registered listeners and exports the history as JSON.
+ */
+export class EventBusInspector {
+	private readonly historySize: number;
+	private readonly captureStack: boolean;
+	private readonly describe: (event?: string) => EventBusListenerInfo[];
+	private traces: EventBusTrace[] = [];
+	private nextId = 1;
+
+	/**
+	 * @param {EventBusInspectorOptions} options - Inspector options.
+	 * @param {(event?: string) => EventBusListenerInfo[]} describe - Lists the listeners of the inspected bus.
+	 */
+	constructor(options: EventBusInspectorOptions, describe: (event?: string) => EventBusListenerInfo[]) {
+		this.historySize = Math.max(1, options.historySize ?? 100);
+		this.captureStack = options.captureStack ?? true;
+		this.describe = describe;
+	}
+
+	/**
+	 * Returns the recorded dispatches, oldest first.
+	 *
+	 * @param {string} [event] - Only return dispatches of this event.
+	 * @returns {EventBusTrace[]} Recorded traces.
+	 */
+	public history(event?: string): EventBusTrace[] {
+		return event === undefined ? [...this.traces] : this.traces.filter((trace) => trace.event === event);
+	}
+
+	/**
+	 * Lists registered listeners. With an event name, returns the listeners that would run for it, in dispatch order.
+	 *
+	 * @param {string} [event] - Event name.
+	 * @returns {EventBusListenerInfo[]} Listener descriptions.
+	 */
+	public listeners(event?: string): EventBusListenerInfo[] {
+		return this.describe(event);
+	}
+
+	public clear(): void {
+		this.traces = [];
+	}
+
+	/**
+	 * Serializes the history for bug reports. Errors become `{ name, message, stack }`, functions and
+	 * circular references are replaced by placeholders, and BigInts become strings.
+	 *
+	 * @param {number} [space] - Indentation passed to `JSON.stringify`.
+	 * @returns {string} JSON array of traces.
+	 */
+	public export(space?: number): string {
+		return JSON.stringify(EventBusInspector.toSerializable(this.traces, []), null, space);
+	}
+
+	/**
+	 * Copies a value into JSON-safe data. Only objects on the current path (`ancestors`) count as circular,
+	 * so an object shared by several traces or properties is serialized each time.
+	 */
+	private static toSerializable(value: unknown, ancestors: object[]): unknown {
+		if (typeof value === 'bigint') return value.toString();
+		if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+		if (typeof value !== 'object' || value === null) return value;
+		if (ancestors.includes(value)) return '[Circular]';
+		if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+
+		const json = (value as { toJSON?: unknown }).toJSON;
+		if (typeof json === 'function') return EventBusInspector.toSerializable(json.call(value), ancestors);
+
+		ancestors.push(value);
+		try {
+			if (Array.isArray(value)) return value.map((item) => EventBusInspector.toSerializable(item, ancestors));
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				result[key] = EventBusInspector.toSerializable(item, ancestors);
+			}
+			return result;
+		} finally {
+			ancestors.pop();
+		}
+	}
+
+	/**
+	 * Starts recording a dispatch. Used by `EventBus`.
+	 * @internal
+	 */
+	public begin(event: string, source: EventBusTraceSource): EventBusTrace {
+		const trace: EventBusTrace = {
+			id: this.nextId++,
+			event,
+			payload: undefined,
+			source,
+			timestamp: Date.now(),
+			cancelled: false,
+			// Drop the `Error` line and the inspector/bus frames (`begin`, `beginTrace`, `publish`/`emit`) so the stack starts at the caller.
+			stack: this.captureStack && source !== 'transport' ? new Error().stack?.split('\n').slice(4).join('\n') : undefined,
+			listeners: [],
+			errors: []
+		};
+		this.traces.push(trace);
+		if (this.traces.length > this.historySize) this.traces.shift();
+		return trace;
+	}
+}
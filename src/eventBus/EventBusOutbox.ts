@@ -0,0 +1,214 @@
+import { StorageDrivers, type StorageDriver } from '../localStorageUtil/StorageDriver.js';
+
+/**
+ * A queued event. `retries` counts the dispatches that ended with a listener error or timeout.
+ */
+export type EventBusOutboxEntry = {
+	id: string;
+	event: string;
+	payload: unknown;
+	retries: number;
+	/** `Date.now()` when the event was first published; queued events are replayed in this order. */
+	createdAt: number;
+	/** Id of the bus dispatching the entry; other buses (e.g. in other tabs) skip it until `leaseUntil`. */
+	owner?: string;
+	leaseUntil?: number;
+};
+
+/**
+ * Storage backend of the outbox. Methods may be synchronous or return promises; the bus serializes its own writes.
+ * Storage shared between tabs must make `save`, `remove` and `claim` atomic across them.
+ */
+export type EventBusOutboxAdapter = {
+	load(): EventBusOutboxEntry[] | Promise<EventBusOutboxEntry[]>;
+	/** Inserts or replaces the entry with the same id. */
+	save(entry: EventBusOutboxEntry): void | Promise<void>;
+	remove(id: string): void | Promise<void>;
+	/**
+	 * Atomically leases every entry of one of `events` without an active lease to `owner` until `leaseUntil`,
+	 * and returns the leased entries. Entries of other events belong to other buses and are left alone.
+	 */
+	claim(owner: string, leaseUntil: number, events: readonly string[]): EventBusOutboxEntry[] | Promise<EventBusOutboxEntry[]>;
+};
+
+const isClaimable = (entry: EventBusOutboxEntry, now: number, events: readonly string[]): boolean =>
+	events.includes(entry.event) && (entry.leaseUntil === undefined || entry.leaseUntil <= now);
+
+export type EventBusStorageOutboxOptions = {
+	/** Defaults to `StorageDrivers.local` (`localStorage`). */
+	driver?: StorageDriver;
+	/** Storage key holding the queue. Buses sharing it (e.g. the same bus in several tabs) share the queue. */
+	key: string;
+};
+
+/**
+ * Outbox adapter that keeps the queue as one JSON array in a `StorageDriver` (`localStorage` by default).
+ * Read-modify-write updates hold a Web Lock named after the storage key where `navigator.locks` is available,
+ * so tabs sharing the queue do not overwrite each other's entries.
+ */
+export class StorageOutboxAdapter implements EventBusOutboxAdapter {
+	private readonly driver: StorageDriver;
+	private readonly key: string;
+
+	constructor(options: EventBusStorageOutboxOptions) {
+		this.driver = options.driver ?? StorageDrivers.local;
+		this.key = options.key;
+	}
+
+	public load(): EventBusOutboxEntry[] {
+		const raw = this.driver.getItem(this.key);
+		if (raw === null) return [];
+		try {
+			const entries: unknown = JSON.parse(raw);
+			return Array.isArray(entries) ? (entries as EventBusOutboxEntry[]) : [];
+		} catch {
+			return [];
+		}
+	}
+
+	public save(entry: EventBusOutboxEntry): void | Promise<void> {
+		return this.exclusive(() => {
+			const entries = this.load();
+			const index = entries.findIndex((existing) => existing.id === entry.id);
+			if (index === -1) entries.push(entry);
+			else entries[index] = entry;
+			this.write(entries);
+		});
+	}
+
+	public remove(id: string): void | Promise<void> {
+		return this.exclusive(() => this.write(this.load().filter((entry) => entry.id !== id)));
+	}
+
+	public claim(owner: string, leaseUntil: number, events: readonly string[]): EventBusOutboxEntry[] | Promise<EventBusOutboxEntry[]> {
+		return this.exclusive(() => {
+			const now = Date.now();
+			const entries = this.load();
+			const claimed = entries.filter((entry) => isClaimable(entry, now, events));
+			for (const entry of claimed) {
+				entry.owner = owner;
+				entry.leaseUntil = leaseUntil;
+			}
+			if (claimed.length > 0) this.write(entries);
+			return claimed;
+		});
+	}
+
+	private exclusive<T>(run: () => T): T | Promise<T> {
+		const locks = typeof navigator === 'undefined' ? null : navigator.locks;
+		if (!locks) return run();
+		return locks.request(`eventBus:outbox:${this.key}`, run) as Promise<T>;
+	}
+
+	private write(entries: EventBusOutboxEntry[]): void {
+		if (entries.length === 0) this.driver.removeItem(this.key);
+		else this.driver.setItem(this.key, JSON.stringify(entries));
+	}
+}
+
+export type EventBusIndexedDBOutboxOptions = {
+	/** Defaults to `eventBus`. */
+	database?: string;
+	/** Defaults to `outbox`. */
+	store?: string;
+};
+
+/**
+ * Outbox adapter over IndexedDB, for larger payloads or many queued events. Payloads must be structured-clone-safe.
+ */
+export class IndexedDBOutboxAdapter implements EventBusOutboxAdapter {
+	private readonly database: string;
+	private readonly store: string;
+	private connection?: Promise<IDBDatabase>;
+
+	constructor(options: EventBusIndexedDBOutboxOptions = {}) {
+		this.database = options.database ?? 'eventBus';
+		this.store = options.store ?? 'outbox';
+	}
+
+	public load(): Promise<EventBusOutboxEntry[]> {
+		return this.request('readonly', (store) => store.getAll() as IDBRequest<EventBusOutboxEntry[]>);
+	}
+
+	public async save(entry: EventBusOutboxEntry): Promise<void> {
+		await this.request('readwrite', (store) => store.put(entry));
+	}
+
+	public async remove(id: string): Promise<void> {
+		await this.request('readwrite', (store) => store.delete(id));
+	}
+
+	/**
+	 * Leases entries inside one `readwrite` transaction, which IndexedDB runs exclusively across tabs.
+	 */
+	public async claim(owner: string, leaseUntil: number, events: readonly string[]): Promise<EventBusOutboxEntry[]> {
+		const database = await this.open();
+		const now = Date.now();
+		return new Promise<EventBusOutboxEntry[]>((resolve, reject) => {
+			const transaction = database.transaction(this.store, 'readwrite');
+			const claimed: EventBusOutboxEntry[] = [];
+			const request = transaction.objectStore(this.store).openCursor();
+			request.onsuccess = () => {
+				const cursor = request.result;
+				if (!cursor) return;
+				const entry = cursor.value as EventBusOutboxEntry;
+				if (isClaimable(entry, now, events)) {
+					const leased: EventBusOutboxEntry = { ...entry, owner, leaseUntil };
+					cursor.update(leased);
+					claimed.push(leased);
+				}
+				cursor.continue();
+			};
+			transaction.oncomplete = () => resolve(claimed);
+			transaction.onerror = () => reject(transaction.error);
+		});
+	}
+
+	/**
+	 * Opens the database at its current version and upgrades it when the store is missing, so adapters with
+	 * different stores can share one database.
+	 */
+	private open(): Promise<IDBDatabase> {
+		this.connection ??= this.connect()
+			.then((database) => {
+				if (database.objectStoreNames.contains(this.store)) return database;
+				const version = database.version + 1;
+				database.close();
+				return this.connect(version);
+			})
+			.catch((error: unknown) => {
+				// Allow the next call to retry opening the database.
+				this.connection = undefined;
+				throw error;
+			});
+		return this.connection;
+	}
+
+	private connect(version?: number): Promise<IDBDatabase> {
+		return new Promise<IDBDatabase>((resolve, reject) => {
+			const request = version === undefined ? indexedDB.open(this.database) : indexedDB.open(this.database, version);
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(this.store)) request.result.createObjectStore(this.store, { keyPath: 'id' });
+			};
+			request.onsuccess = () => {
+				const database = request.result;
+				// Let adapters of other stores (in this or another tab) upgrade the database; the next call reopens it.
+				database.onversionchange = () => {
+					database.close();
+					this.connection = undefined;
+				};
+				resolve(database);
+			};
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+		const database = await this.open();
+		return new Promise<T>((resolve, reject) => {
+			const request = run(database.transaction(this.store, mode).objectStore(this.store));
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+}
@@ -0,0 +1,90 @@
+import type {
+	EventBus,
+	EventBusAnyListener,
+	EventBusListener,
+	EventBusMap,
+	EventBusOnceOptions,
+	EventBusPattern,
+	EventBusPatternListener,
+	EventBusRequestMap,
+	EventBusSubscribeAllOptions,
+	EventBusSubscribeOptions
+} from './EventBus.js';
+
+type EventKey<E extends EventBusMap> = Extract<keyof E, string>;
+
+/**
+ * A group of subscriptions on one bus, dropped together with `dispose()` (e.g. on component teardown).
+ * Created by `EventBus#scope`; in development a warning is logged when a scope is garbage-collected without being disposed.
+ *
+ * @example
+ * const scope = bus.scope('UserMenu');
+ * scope.subscribe('user:login', render);
+ * scope.subscribePattern('cart.*', refresh);
+ * // on teardown
+ * scope.dispose();
+ */
+export class EventBusScope<E extends EventBusMap, R extends EventBusRequestMap = Record<never, never>> {
+	/** Label used in the development warning. */
+	public readonly name: string;
+	private readonly bus: EventBus<E, R>;
+	private readonly controller = new AbortController();
+	private readonly onDispose?: () => void;
+
+	constructor(bus: EventBus<E, R>, name = 'anonymous', onDispose?: () => void) {
+		this.bus = bus;
+		this.name = name;
+		this.onDispose = onDispose;
+	}
+
+	/**
+	 * Aborted on `dispose()`; pass it to `waitFor`, `request` or your own async work to tie them to the scope.
+	 */
+	public get signal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	public get disposed(): boolean {
+		return this.controller.signal.aborted;
+	}
+
+	public subscribe<K extends EventKey<E>>(event: K, listener: EventBusListener<E, K>, options: EventBusSubscribeOptions = {}): () => void {
+		return this.track(() => this.bus.subscribe(event, listener, options));
+	}
+
+	public once<K extends EventKey<E>>(event: K, listener: EventBusListener<E, K>, options: EventBusOnceOptions<E, K> = {}): () => void {
+		return this.track(() => this.bus.once(event, listener, options));
+	}
+
+	public subscribePattern<P extends string>(
+		pattern: EventBusPattern<E, P>,
+		listener: EventBusPatternListener<E, P>,
+		options: EventBusSubscribeOptions = {}
+	): () => void {
+		return this.track(() => this.bus.subscribePattern(pattern, listener, options));
+	}
+
+	public subscribeAll(listener: EventBusAnyListener<E>, options: EventBusSubscribeAllOptions = {}): () => void {
+		return this.track(() => this.bus.subscribeAll(listener, options));
+	}
+
+	/**
+	 * Removes every subscription made through the scope and aborts its `signal`. Later subscriptions through the scope are ignored.
+	 */
+	public dispose(): void {
+		if (this.disposed) return;
+		this.controller.abort();
+		this.onDispose?.();
+	}
+
+	private track(subscribe: () => () => void): () => void {
+		if (this.disposed) return () => {};
+		const unsubscribe = subscribe();
+		const signal = this.controller.signal;
+		signal.addEventListener('abort', unsubscribe, { once: true });
+		return () => {
+			signal.removeEventListener('abort', unsubscribe);
+			unsubscribe();
+		};
+	}
+}
@@ -0,0 +1,158 @@
+/**
+ * What a stream does when a payload arrives while `bufferSize` payloads are waiting to be consumed:
+ * `drop-oldest` discards the oldest buffered payload, `drop-newest` discards the arriving one,
+ * `error` ends the stream with `EventBusStreamOverflowError` after the buffered payloads.
+ */
+export type EventBusStreamOverflow = 'drop-oldest' | 'drop-newest' | 'error';
+
+export type EventBusStreamOptions = {
+	/** Aborting unsubscribes and ends the iteration (buffered payloads are still delivered). */
+	signal?: AbortSignal;
+	/** Maximum number of unconsumed payloads; `0` only delivers payloads to a waiting consumer. Defaults to unbounded. */
+	bufferSize?: number;
+	/** Defaults to `drop-oldest`. */
+	overflow?: EventBusStreamOverflow;
+};
+
+/** Adds a listener and returns the function that removes it. */
+export type EventBusSubscriber<T> = (listener: (payload: T) => void) => () => void;
+
+export type EventBusObserver<T> = {
+	next?(value: T): void;
+	error?(error: unknown): void;
+	complete?(): void;
+};
+
+export type EventBusSubscription = {
+	unsubscribe(): void;
+	readonly closed: boolean;
+};
+
+/**
+ * Rejection reason of a stream whose buffer overflowed with `overflow: 'error'`.
+ */
+export class EventBusStreamOverflowError extends Error {
+	readonly event: string;
+	readonly bufferSize: number;
+
+	constructor(event: string, bufferSize: number) {
+		super(`Stream of "${event}" overflowed its buffer of ${bufferSize} payloads.`);
+		this.name = 'EventBusStreamOverflowError';
+		this.event = event;
+		this.bufferSize = bufferSize;
+	}
+}
+
+/** `Symbol.observable` where a polyfill (e.g. RxJS or `symbol-observable`) defines it, otherwise the `@@observable` convention. */
+const observableKey: symbol | string = (Symbol as { observable?: symbol }).observable ?? '@@observable';
+
+/**
+ * Async iterator over the payloads of one event, created by `EventBus#stream`.
+ * Payloads published while the consumer is busy are buffered; `return()` (e.g. `break` in `for await`) unsubscribes.
+ */
+export class EventBusStream<T> implements AsyncIterableIterator<T> {
+	private readonly event: string;
+	private readonly bufferSize: number;
+	private readonly overflow: EventBusStreamOverflow;
+	private readonly signal?: AbortSignal;
+	private readonly buffer: T[] = [];
+	private readonly waiting: ((result: IteratorResult<T>) => void)[] = [];
+	private unsubscribe: (() => void) | null = null;
+	private failure: EventBusStreamOverflowError | null = null;
+
+	constructor(event: string, subscribe: EventBusSubscriber<T>, options: EventBusStreamOptions = {}) {
+		this.event = event;
+		this.bufferSize = options.bufferSize ?? Infinity;
+		this.overflow = options.overflow ?? 'drop-oldest';
+		this.signal = options.signal;
+		if (this.signal?.aborted) return;
+
+		const unsubscribe = subscribe((payload) => this.push(payload));
+		// Replayed payloads arrive inside `subscribe` and may already have overflowed the buffer.
+		if (this.failure) {
+			unsubscribe();
+			return;
+		}
+		this.unsubscribe = unsubscribe;
+		this.signal?.addEventListener('abort', this.close, { once: true });
+	}
+
+	public next(): Promise<IteratorResult<T>> {
+		if (this.buffer.length > 0) return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+		if (this.failure) return Promise.reject(this.failure);
+		if (!this.unsubscribe) return Promise.resolve({ value: undefined, done: true });
+		return new Promise((resolve) => this.waiting.push(resolve));
+	}
+
+	public return(): Promise<IteratorResult<T>> {
+		this.buffer.length = 0;
+		this.close();
+		return Promise.resolve({ value: undefined, done: true });
+	}
+
+	public [Symbol.asyncIterator](): this {
+		return this;
+	}
+
+	private push(payload: T): void {
+		const resolve = this.waiting.shift();
+		if (resolve) {
+			resolve({ value: payload, done: false });
+			return;
+		}
+		if (this.buffer.length < this.bufferSize) {
+			this.buffer.push(payload);
+			return;
+		}
+		// With `bufferSize: 0` nothing is buffered, so there is no older payload to make room for.
+		if (this.overflow === 'drop-oldest') {
+			if (this.bufferSize === 0) return;
+			this.buffer.shift();
+			this.buffer.push(payload);
+		} else if (this.overflow === 'error') {
+			this.failure = new EventBusStreamOverflowError(this.event, this.bufferSize);
+			this.close();
+		}
+	}
+
+	private readonly close = (): void => {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.signal?.removeEventListener('abort', this.close);
+		for (const resolve of this.waiting.splice(0)) {
+			resolve({ value: undefined, done: true });
+		}
+	};
+}
+
+/**
+ * Minimal `Symbol.observable`-compatible wrapper around one event, created by `EventBus#observable`.
+ * Accepted by RxJS `from()` and other interop-aware libraries; each `subscribe` adds a bus listener.
+ */
+export class EventBusObservable<T> {
+	private readonly subscriber: EventBusSubscriber<T>;
+
+	constructor(subscribe: EventBusSubscriber<T>) {
+		this.subscriber = subscribe;
+		(this as unknown as Record<string | symbol, () => EventBusObservable<T>>)[observableKey] = () => this;
+	}
+
+	/**
+	 * @param {EventBusObserver<T> | ((value: T) => void)} observer - Observer or `next` callback.
+	 * @returns {EventBusSubscription} Subscription; `unsubscribe()` removes the bus listener.
+	 */
+	public subscribe(observer: EventBusObserver<T> | ((value: T) => void)): EventBusSubscription {
+		let unsubscribe: (() => void) | null = this.subscriber((payload) =>
+			typeof observer === 'function' ? observer(payload) : observer.next?.(payload)
+		);
+		return {
+			unsubscribe: () => {
+				unsubscribe?.();
+				unsubscribe = null;
+			},
+			get closed() {
+				return unsubscribe === null;
+			}
+		};
+	}
+}
@@ -0,0 +1,140 @@
+/**
+ * Envelope exchanged between connected buses. `source` is the id of the bus that published the event,
+ * `id` identifies the publish so relayed copies are delivered only once.
+ */
+export type EventBusTransportMessage = {
+	__eventBus: 1;
+	source: string;
+	id: string;
+	event: string;
+	payload: unknown;
+};
+
+export type EventBusTransportHandler = (message: EventBusTransportMessage) => void;
+
+/**
+ * Carries published events between buses in different contexts. `send` receives structured-clone-safe messages
+ * and may throw (e.g. `DataCloneError`); the bus reports such failures through `onError` with phase `transport`.
+ */
+export type EventBusTransport = {
+	send(message: EventBusTransportMessage): void;
+	subscribe(handler: EventBusTransportHandler): () => void;
+	close?(): void;
+};
+
+/** Anything with the `MessagePort` messaging surface: `MessagePort`, `Worker`, a worker's `self`. */
+export type EventBusMessagePortLike = {
+	postMessage(message: unknown): void;
+	addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+	removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+	start?(): void;
+};
+
+export type EventBusWindowTransportOptions = {
+	/** Window to post to (`window.parent`, `iframe.contentWindow`, `window.opener`, …). */
+	target: Window;
+	/** Origin passed to `postMessage`; use the exact origin of the target rather than `*`. */
+	targetOrigin: string;
+	/** Origins whose messages are accepted. Messages from any other origin are ignored. */
+	allowedOrigins: string[];
+	/** Window that receives messages (defaults to the global `window`). */
+	receiver?: Window;
+};
+
+const isTransportMessage = (data: unknown): data is EventBusTransportMessage =>
+	typeof data === 'object' &&
+	data !== null &&
+	(data as EventBusTransportMessage).__eventBus === 1 &&
+	typeof (data as EventBusTransportMessage).id === 'string' &&
+	typeof (data as EventBusTransportMessage).source === 'string' &&
+	typeof (data as EventBusTransportMessage).event === 'string';
+
+/**
+ * Transport over a `BroadcastChannel`, connecting buses in tabs, iframes and workers of the same origin.
+ */
+export class BroadcastChannelTransport implements EventBusTransport {
+	private readonly channel: BroadcastChannel;
+	private readonly ownsChannel: boolean;
+
+	/**
+	 * @param {string | BroadcastChannel} channel - Channel name, or an existing channel (which `close` leaves open).
+	 */
+	constructor(channel: string | BroadcastChannel) {
+		this.ownsChannel = typeof channel === 'string';
+		this.channel = typeof channel === 'string' ? new BroadcastChannel(channel) : channel;
+	}
+
+	public send(message: EventBusTransportMessage): void {
+		this.channel.postMessage(message);
+	}
+
+	public subscribe(handler: EventBusTransportHandler): () => void {
+		const listener = (event: MessageEvent): void => {
+			if (isTransportMessage(event.data)) handler(event.data);
+		};
+		this.channel.addEventListener('message', listener);
+		return () => this.channel.removeEventListener('message', listener);
+	}
+
+	public close(): void {
+		if (this.ownsChannel) this.channel.close();
+	}
+}
+
+/**
+ * Transport over `window.postMessage`, e.g. between a page and its iframes. Only messages from `allowedOrigins` are accepted.
+ */
+export class WindowMessageTransport implements EventBusTransport {
+	private readonly options: EventBusWindowTransportOptions;
+
+	constructor(options: EventBusWindowTransportOptions) {
+		if (options.allowedOrigins.length === 0) {
+			throw new Error('WindowMessageTransport requires at least one allowed origin.');
+		}
+		this.options = options;
+	}
+
+	public send(message: EventBusTransportMessage): void {
+		this.options.target.postMessage(message, this.options.targetOrigin);
+	}
+
+	public subscribe(handler: EventBusTransportHandler): () => void {
+		const receiver = this.options.receiver ?? window;
+		const listener = (event: MessageEvent): void => {
+			if (!this.options.allowedOrigins.includes(event.origin) || !isTransportMessage(event.data)) return;
+			handler(event.data);
+		};
+		receiver.addEventListener('message', listener);
+		return () => receiver.removeEventListener('message', listener);
+	}
+}
+
+/**
+ * Transport over a `MessagePort` or `Worker` (use the worker's `self` on the other side).
+ */
+export class MessagePortTransport implements EventBusTransport {
+	private readonly port: EventBusMessagePortLike;
+
+	constructor(port: EventBusMessagePortLike) {
+		this.port = port;
+	}
+
+	public send(message: EventBusTransportMessage): void {
+		this.port.postMessage(message);
+	}
+
+	public subscribe(handler: EventBusTransportHandler): () => void {
+		const listener = (event: MessageEvent): void => {
+			if (isTransportMessage(event.data)) handler(event.data);
+		};
+		this.port.addEventListener('message', listener);
+		// MessagePort only dispatches `message` events to addEventListener listeners after start().
+		this.port.start?.();
+		return () => this.port.removeEventListener('message', listener);
+	}
+
+	public close(): void {
+		// Only close real ports: closing a worker's `self` would terminate the worker.
+		if (typeof MessagePort !== 'undefined' && this.port instanceof MessagePort) this.port.close();
+	}
+}
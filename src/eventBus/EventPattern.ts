@@ -0,0 +1,59 @@
+type Separator = ':' | '.';
+
+type MatchStar<K extends string, P extends string> = K extends `${infer C}${infer Tail}`
+	? C extends Separator
+		? false
+		: EventPatternMatch<Tail, P> extends true
+			? true
+			: MatchStar<Tail, P>
+	: false;
+
+type MatchGlobstar<K extends string, P extends string> =
+	EventPatternMatch<K, P> extends true ? true : K extends `${string}${infer Tail}` ? MatchGlobstar<Tail, P> : false;
+
+/**
+ * `true` when event name `K` matches pattern `P`: `*` matches one or more characters within a `:`/`.` segment,
+ * `**` matches across segments.
+ */
+export type EventPatternMatch<K extends string, P extends string> = P extends `${infer Head}*${infer Rest}`
+	? K extends `${Head}${infer KRest}`
+		? Rest extends `*${infer After}`
+			? MatchGlobstar<KRest, After>
+			: MatchStar<KRest, Rest>
+		: false
+	: K extends P
+		? true
+		: false;
+
+/**
+ * Runtime counterpart of `EventPatternMatch`.
+ */
+export class EventPatterns {
+	private static readonly cache = new Map<string, RegExp>();
+
+	static isPattern(value: string): boolean {
+		return value.includes('*');
+	}
+
+	static matches(pattern: string, event: string): boolean {
+		return this.compile(pattern).test(event);
+	}
+
+	static compile(pattern: string): RegExp {
+		let matcher = this.cache.get(pattern);
+		if (!matcher) {
+			const source = pattern
+				.split('**')
+				.map((part) =>
+					part
+						.split('*')
+						.map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+						.join('[^:.]+')
+				)
+				.join('.*');
+			matcher = new RegExp(`^${source}$`);
+			this.cache.set(pattern, matcher);
+		}
+		return matcher;
+	}
+}
@@ -1 +1,7 @@
 export * from './EventBus.js';
+export * from './EventPattern.js';
+export * from './EventBusTransport.js';
+export * from './EventBusInspector.js';
+export * from './EventBusScope.js';
+export * from './EventBusStream.js';
+export * from './EventBusOutbox.js';
@@ -1,7 +1,15 @@
 export * from './textUtil/TextUtil.js';
 export * from './cookies/Cookies.js';
+export * from './cookies/CookieJar.js';
+export * from './cookies/CookieConsent.js';
 export * from './dateUtil/DateUtil.js';
 export * from './eventBus/EventBus.js';
+export * from './eventBus/EventPattern.js';
+export * from './eventBus/EventBusTransport.js';
+export * from './eventBus/EventBusInspector.js';
+export * from './eventBus/EventBusScope.js';
+export * from './eventBus/EventBusStream.js';
+export * from './eventBus/EventBusOutbox.js';
 export * from './environmentUtil/EnvironmentUtil.js';
 export * from './objectUtil/ObjectUtil.js';
 export * from './intersectionObserver/IntersectionObserver.js';
@@ -10,4 +18,8 @@ export * from './formdata/FormDataUtil.js';
 export * from './debounce/DebounceUtil.js';
 export * from './throttle/ThrottleUtil.js';
 export * from './localStorageUtil/LocalStorageUtil.js';
+export * from './localStorageUtil/StorageBucket.js';
+export * from './localStorageUtil/StorageDriver.js';
 export * from './uidGenerator/UidGenerator.js';
+export * from './valueCodec/ValueCodec.js';
+export * from './valueValidator/ValueValidator.js';
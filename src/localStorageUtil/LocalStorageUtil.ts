@@ -1,72 +1,114 @@
-import { BROWSER } from '../../environment.js';
+import type { ValueCodec } from '../valueCodec/ValueCodec.js';
+import {
+	StorageBucket,
+	type StorageAnyChangeListener,
+	type StorageBucketOptions,
+	type StorageChangeListener,
+	type StorageErrorHandler,
+	type StorageGetOptions,
+	type StorageMigrationOptions,
+	type StorageSetOptions,
+	type StorageUsage,
+	type StorageWriteResult,
+	type StorageValidatedGetOptions
+} from './StorageBucket.js';
+import type { ValueValidator } from '../valueValidator/ValueValidator.js';
 
 /**
  * Utility class for managing localStorage in the browser environment.
  * Supports setting, getting, deleting, checking, and clearing items.
  * All methods are static. Uses EnvironmentUtil to avoid access on server.
+ * Falls back to an in-memory store in the browser when localStorage is unavailable (e.g. private mode).
+ * Use `LocalStorageUtil.create({ prefix, driver })` for namespaced instances and other backends.
  */
 export class LocalStorageUtil {
+	private static readonly root = new StorageBucket();
+
 	/**
-	 * Checks if localStorage is available in the current environment.
-	 * @returns {boolean} True if running in browser and localStorage is available.
-	 * @private
+	 * Creates a storage instance whose keys are scoped to the given prefix and/or backed by another driver
+	 * (e.g. `StorageDrivers.session` or a `MemoryStorageDriver`).
+	 *
+	 * @param {StorageBucketOptions} [options] - Instance options (`prefix`, `codec`, `driver`, `fallback`).
+	 * @returns {StorageBucket} Instance with the same API as `LocalStorageUtil`.
 	 */
-	private static isSupported(): boolean {
-		if (!BROWSER || typeof window === 'undefined') return false;
-		try {
-			const key = '__storage_test__';
-			window.localStorage.setItem(key, '');
-			window.localStorage.removeItem(key);
-			return true;
-		} catch {
-			return false;
-		}
+	public static create(options: StorageBucketOptions = {}): StorageBucket {
+		return new StorageBucket(options);
 	}
 
 	/**
-	 * Sets an item with the specified key and value. Serializes non-string values as JSON.
+	 * Sets the default value codec (defaults to `ValueCodecs.auto`).
+	 *
+	 * @param {ValueCodec} codec - Codec used when no per-call codec is given.
+	 * @returns {void}
+	 */
+	public static setCodec(codec: ValueCodec): void {
+		this.root.setCodec(codec);
+	}
+
+	/**
+	 * Sets the handler that receives validation, migration and quota failures (defaults to `console.warn`).
+	 *
+	 * @param {StorageErrorHandler} [handler] - Error hook; pass nothing to restore the default warning.
+	 * @returns {void}
+	 */
+	public static setErrorHandler(handler?: StorageErrorHandler): void {
+		this.root.setErrorHandler(handler);
+	}
+
+	/**
+	 * Turns on least-recently-used eviction for quota errors: `set` removes the keys least recently read or
+	 * written through the util (keys not touched in this session go first) and retries the write.
+	 *
+	 * @param {'lru'} [eviction] - Eviction strategy; pass nothing to turn eviction off.
+	 * @returns {void}
+	 */
+	public static setEviction(eviction?: 'lru'): void {
+		this.root.setEviction(eviction);
+	}
+
+	/**
+	 * Turns a key into a versioned entry: `set` stores the schema version next to the value and `get` runs
+	 * the migrations from the stored version up to the current one, then writes the migrated value back.
+	 *
+	 * @param {string} key - The storage key.
+	 * @param {StorageMigrationOptions} options - Current version and migration functions.
+	 * @returns {void}
+	 */
+	public static registerMigrations(key: string, options: StorageMigrationOptions): void {
+		this.root.registerMigrations(key, options);
+	}
+
+	/**
+	 * Sets an item with the specified key and value. Serializes non-string values as JSON unless another codec is configured.
+	 * When `ttl` or `expiresAt` is given, the value is wrapped in an entry that expires lazily.
 	 *
 	 * @template T
 	 * @param {string} key - The storage key.
 	 * @param {T} value - The value to store.
-	 * @returns {void}
+	 * @param {StorageSetOptions} [options] - Write options.
+	 * @returns {StorageWriteResult} Whether the write succeeded; `reason: 'quota'` when storage is full.
 	 */
-	public static set<T = string>(key: string, value: T): void {
-		if (!this.isSupported()) {
-			console.warn('localStorage is not supported in this environment.');
-			return;
-		}
-		const serialized = typeof value === 'string' ? value : JSON.stringify(value);
-		try {
-			window.localStorage.setItem(key, serialized);
-		} catch {
-			console.warn('localStorage.setItem failed.');
-		}
+	public static set<T = string>(key: string, value: T, options?: StorageSetOptions): StorageWriteResult {
+		return this.root.set(key, value, options);
 	}
 
 	/**
-	 * Retrieves the value by key. Attempts to parse JSON if possible.
+	 * Retrieves the value by key. Attempts to parse JSON if possible, or uses the given codec.
+	 * Expired items are removed and reported as missing.
+	 * When a validator is given, a value of the wrong shape is reported through the error hook
+	 * and `options.fallback` (or null) is returned instead.
 	 *
 	 * @template T
 	 * @param {string} key - The storage key to retrieve.
+	 * @param {ValueValidator<T>} [validator] - Optional type guard or `parse`/`safeParse` schema.
+	 * @param {StorageValidatedGetOptions<T>} [options] - Read options.
 	 * @returns {T | null} The value, parsed as type T, or null if not found.
 	 */
-	public static get<T = string>(key: string): T | null {
-		if (!this.isSupported()) {
-			console.warn('localStorage is not supported in this environment.');
-			return null;
-		}
-		try {
-			const raw = window.localStorage.getItem(key);
-			if (raw === null) return null;
-			try {
-				return JSON.parse(raw) as T;
-			} catch {
-				return raw as T;
-			}
-		} catch {
-			return null;
-		}
+	public static get<T>(key: string, validator: ValueValidator<T>, options: StorageValidatedGetOptions<T> & { fallback: T }): T;
+	public static get<T>(key: string, validator: ValueValidator<T>, options?: StorageValidatedGetOptions<T>): T | null;
+	public static get<T = string>(key: string, options?: StorageGetOptions): T | null;
+	public static get<T>(key: string, validatorOrOptions?: ValueValidator<T> | StorageGetOptions, options?: StorageValidatedGetOptions<T>): T | null {
+		return this.root.get<T>(key, validatorOrOptions as ValueValidator<T>, options);
 	}
 
 	/**
@@ -76,57 +118,35 @@ export class LocalStorageUtil {
 	 * @returns {void}
 	 */
 	public static delete(key: string): void {
-		if (!this.isSupported()) {
-			console.warn('localStorage is not supported in this environment.');
-			return;
-		}
-		try {
-			window.localStorage.removeItem(key);
-		} catch {
-			console.warn('localStorage.removeItem failed.');
-		}
+		this.root.delete(key);
 	}
 
 	/**
-	 * Checks if an item with the given key exists.
+	 * Checks if a non-expired item with the given key exists.
 	 *
 	 * @param {string} key - The storage key to check.
 	 * @returns {boolean} True if key exists, false otherwise.
 	 */
 	public static has(key: string): boolean {
-		if (!this.isSupported()) return false;
-		return window.localStorage.getItem(key) !== null;
+		return this.root.has(key);
 	}
 
 	/**
-	 * Returns all keys in localStorage. Does not parse values.
+	 * Returns all keys in localStorage. Does not parse values or check expiry.
 	 *
 	 * @returns {string[]} Array of keys.
 	 */
 	public static keys(): string[] {
-		if (!this.isSupported()) return [];
-		const n = window.localStorage.length;
-		const result: string[] = [];
-		for (let i = 0; i < n; i++) {
-			const key = window.localStorage.key(i);
-			if (key !== null) result.push(key);
-		}
-		return result;
+		return this.root.keys();
 	}
 
 	/**
-	 * Retrieves all items as a key-value record. Attempts to parse JSON values.
+	 * Retrieves all non-expired items as a key-value record. Values are decoded with the default codec.
 	 *
 	 * @returns {Record<string, unknown>} Object with all keys and their values.
 	 */
 	public static getAll(): Record<string, unknown> {
-		if (!this.isSupported()) return {};
-		const result: Record<string, unknown> = {};
-		for (const key of this.keys()) {
-			const value = this.get(key);
-			if (value !== null) result[key] = value;
-		}
-		return result;
+		return this.root.getAll();
 	}
 
 	/**
@@ -135,14 +155,47 @@ export class LocalStorageUtil {
 	 * @returns {void}
 	 */
 	public static clear(): void {
-		if (!this.isSupported()) {
-			console.warn('localStorage is not supported in this environment.');
-			return;
-		}
-		try {
-			window.localStorage.clear();
-		} catch {
-			console.warn('localStorage.clear failed.');
-		}
+		this.root.clear();
+	}
+
+	/**
+	 * Reports approximate localStorage usage: UTF-16 bytes of each key plus its stored value.
+	 *
+	 * @returns {StorageUsage} Bytes per key and the total.
+	 */
+	public static usage(): StorageUsage {
+		return this.root.usage();
+	}
+
+	/**
+	 * Removes expired items written with `ttl`/`expiresAt`. Keys not written through this util are skipped.
+	 *
+	 * @returns {number} Number of removed items.
+	 */
+	public static purgeExpired(): number {
+		return this.root.purgeExpired();
+	}
+
+	/**
+	 * Subscribes to changes of a key, including writes from this tab and `storage` events from other tabs.
+	 * Values are decoded the same way `get` does.
+	 *
+	 * @template T
+	 * @param {string} key - The storage key to watch.
+	 * @param {StorageChangeListener<T>} listener - Called with the new and old values.
+	 * @returns {() => void} Unsubscribe function.
+	 */
+	public static subscribe<T = string>(key: string, listener: StorageChangeListener<T>): () => void {
+		return this.root.subscribe(key, listener);
+	}
+
+	/**
+	 * Subscribes to changes of every key.
+	 *
+	 * @param {StorageAnyChangeListener} listener - Called with the key, new and old values.
+	 * @returns {() => void} Unsubscribe function.
+	 */
+	public static subscribeAll(listener: StorageAnyChangeListener): () => void {
+		return this.root.subscribeAll(listener);
 	}
 }
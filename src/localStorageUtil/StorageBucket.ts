@@ -0,0 +1,659 @@
+import { BROWSER } from '../../environment.js';
+import { ValueCodecs, type ValueCodec } from '../valueCodec/ValueCodec.js';
+import { Validation, type ValueValidator } from '../valueValidator/ValueValidator.js';
+import { StorageDrivers, type StorageDriver } from './StorageDriver.js';
+
+export type StorageSetOptions = {
+	codec?: ValueCodec;
+	/** Time to live in milliseconds. */
+	ttl?: number;
+	/** Absolute expiry as a Date or timestamp in milliseconds. Takes precedence over `ttl`. */
+	expiresAt?: Date | number;
+};
+
+export type StorageGetOptions = {
+	codec?: ValueCodec;
+};
+
+export type StorageValidatedGetOptions<T> = StorageGetOptions & {
+	/** Returned instead of null when the item is missing or fails validation. */
+	fallback?: T;
+};
+
+export type StorageErrorContext = {
+	key: string;
+	value: unknown;
+	phase: 'validation' | 'migration' | 'quota';
+};
+
+/**
+ * Outcome of a write. `quota` means the storage is full (after eviction, if enabled).
+ */
+export type StorageWriteResult =
+	| { ok: true; evicted: string[] }
+	| { ok: false; reason: 'quota' | 'unsupported' | 'error'; error?: unknown; evicted: string[] };
+
+/**
+ * Approximate storage usage in bytes (UTF-16, key + stored value).
+ */
+export type StorageUsage = {
+	total: number;
+	keys: Record<string, number>;
+};
+
+/**
+ * Upgrades a value from the previous schema version. Typed loosely so `(v1: SettingsV1) => SettingsV2` is accepted.
+ */
+export type StorageMigration = (value: never) => unknown;
+
+export type StorageMigrationOptions = {
+	/** Current schema version written by `set`. */
+	version: number;
+	/** Migrations keyed by the version they produce, e.g. `{ 2: (v1) => v2, 3: (v2) => v3 }`. Unversioned values count as version 1. */
+	migrations: Record<number, StorageMigration>;
+};
+
+export type StorageErrorHandler = (error: unknown, context: StorageErrorContext) => void;
+
+export type StorageBucketOptions = {
+	/**
+	 * Key prefix; keys are stored as `${prefix}:${key}`, with `:` and `\` inside the prefix escaped by a backslash,
+	 * so nested namespaces such as `app` and `app:sub` never see each other's keys. Empty prefix means the whole origin.
+	 */
+	prefix?: string;
+	/** Default codec (defaults to `ValueCodecs.auto`). */
+	codec?: ValueCodec;
+	/** Storage backend (defaults to `StorageDrivers.local`). */
+	driver?: StorageDriver;
+	/**
+	 * Driver used when `driver` is unavailable. Defaults to `StorageDrivers.memory` in the browser
+	 * (e.g. private mode) and to none on the server, where a process-wide store would leak between requests.
+	 */
+	fallback?: StorageDriver | null;
+	/** Receives validation, migration and quota failures (defaults to `console.warn`). */
+	onError?: StorageErrorHandler;
+	/**
+	 * Frees space when a write hits the quota: `'lru'` removes the least recently used keys of this namespace
+	 * (keys not touched in this session go first) and retries the write.
+	 */
+	eviction?: 'lru';
+};
+
+/**
+ * Receives decoded values of a single key. On a cross-tab `clear()` the old value is not available and is reported as null.
+ */
+export type StorageChangeListener<T> = (newValue: T | null, oldValue: T | null) => void;
+
+/**
+ * Receives changes of every key in the namespace. `key` is null when another tab cleared the whole storage.
+ */
+export type StorageAnyChangeListener = (key: string | null, newValue: unknown, oldValue: unknown) => void;
+
+type StorageEntry = {
+	__lsu: 1;
+	value: string;
+	expiresAt?: number;
+	version?: number;
+};
+
+const ENTRY_MARKER = '{"__lsu":';
+
+/**
+ * Storage wrapper over a `StorageDriver`, scoped to an optional key prefix.
+ * `keys`, `getAll`, `has`, `clear` and `purgeExpired` only see keys inside the namespace.
+ * Created through `LocalStorageUtil.create`; the static `LocalStorageUtil` API uses an unprefixed localStorage bucket.
+ */
+export class StorageBucket {
+	private readonly keyPrefix: string;
+	private readonly primaryDriver: StorageDriver;
+	private readonly fallbackDriver: StorageDriver | null;
+	private readonly keyListeners: Map<string, Set<StorageChangeListener<unknown>>>;
+	private readonly anyListeners: Set<StorageAnyChangeListener>;
+	private readonly migrations: Map<string, StorageMigrationOptions>;
+	private eviction?: 'lru';
+	private readonly accessOrder: Map<string, number>;
+	private accessCounter: number;
+	private driverUnsubscribe: (() => void) | null;
+	private codec: ValueCodec;
+	private onError?: StorageErrorHandler;
+
+	constructor(options: StorageBucketOptions = {}) {
+		this.keyPrefix = options.prefix ? `${options.prefix.replace(/[\\:]/g, '\\$&')}:` : '';
+		this.codec = options.codec ?? ValueCodecs.auto;
+		this.primaryDriver = options.driver ?? StorageDrivers.local;
+		this.fallbackDriver = options.fallback !== undefined ? options.fallback : BROWSER ? StorageDrivers.memory : null;
+		this.keyListeners = new Map<string, Set<StorageChangeListener<unknown>>>();
+		this.anyListeners = new Set<StorageAnyChangeListener>();
+		this.migrations = new Map<string, StorageMigrationOptions>();
+		this.eviction = options.eviction;
+		this.accessOrder = new Map<string, number>();
+		this.accessCounter = 0;
+		this.driverUnsubscribe = null;
+		this.onError = options.onError;
+	}
+
+	/**
+	 * Checks if the configured driver is available in the current environment.
+	 * @returns {boolean} True if the primary driver can be used (the fallback is not considered).
+	 */
+	public isSupported(): boolean {
+		return this.primaryDriver.isAvailable();
+	}
+
+	/**
+	 * Sets the default value codec.
+	 *
+	 * @param {ValueCodec} codec - Codec used when no per-call codec is given.
+	 * @returns {void}
+	 */
+	public setCodec(codec: ValueCodec): void {
+		this.codec = codec;
+	}
+
+	/**
+	 * Sets what happens when a write hits the quota: `'lru'` evicts least recently used keys of this namespace.
+	 *
+	 * @param {'lru'} [eviction] - Eviction strategy; pass nothing to turn eviction off.
+	 * @returns {void}
+	 */
+	public setEviction(eviction?: 'lru'): void {
+		this.eviction = eviction;
+	}
+
+	/**
+	 * Sets the handler that receives validation, migration and quota failures.
+	 *
+	 * @param {StorageErrorHandler} [handler] - Error hook; pass nothing to restore the default warning.
+	 * @returns {void}
+	 */
+	public setErrorHandler(handler?: StorageErrorHandler): void {
+		this.onError = handler;
+	}
+
+	/**
+	 * Turns a key into a versioned entry: `set` stores the schema version next to the value and `get` runs
+	 * the migrations from the stored version up to the current one, then writes the migrated value back.
+	 *
+	 * @param {string} key - The storage key.
+	 * @param {StorageMigrationOptions} options - Current version and migration functions.
+	 * @returns {void}
+	 */
+	public registerMigrations(key: string, options: StorageMigrationOptions): void {
+		this.migrations.set(key, options);
+	}
+
+	/**
+	 * Sets an item with the specified key and value. Serializes non-string values as JSON unless another codec is configured.
+	 * When `ttl` or `expiresAt` is given, the value is wrapped in an entry that expires lazily.
+	 * Quota errors are reported through the error hook; with `eviction: 'lru'` old keys are removed and the write is retried.
+	 *
+	 * @template T
+	 * @param {string} key - The storage key.
+	 * @param {T} value - The value to store.
+	 * @param {StorageSetOptions} [options] - Write options.
+	 * @returns {StorageWriteResult} Whether the write succeeded, and why not.
+	 */
+	public set<T = string>(key: string, value: T, options: StorageSetOptions = {}): StorageWriteResult {
+		const driver = this.resolveDriver();
+		if (!driver) {
+			this.warnUnsupported();
+			return { ok: false, reason: 'unsupported', evicted: [] };
+		}
+		const encoded = (options.codec ?? this.codec).encode(value);
+		const serialized = this.serializeEntry(encoded, this.resolveExpiresAt(options), this.migrations.get(key)?.version);
+		return this.writeItem(driver, key, serialized);
+	}
+
+	/**
+	 * Retrieves the value by key. Attempts to parse JSON if possible, or uses the given codec.
+	 * Expired items are removed and reported as missing. Keys with registered migrations are upgraded first.
+	 *
+	 * When a validator (type guard or `parse`/`safeParse` schema) is given, a value of the wrong shape
+	 * is reported through the error hook and `options.fallback` (or null) is returned instead.
+	 *
+	 * @template T
+	 * @param {string} key - The storage key to retrieve.
+	 * @param {ValueValidator<T>} [validator] - Optional validator for the decoded value.
+	 * @param {StorageValidatedGetOptions<T>} [options] - Read options.
+	 * @returns {T | null} The value, parsed as type T, or null if not found.
+	 */
+	public get<T>(key: string, validator: ValueValidator<T>, options: StorageValidatedGetOptions<T> & { fallback: T }): T;
+	public get<T>(key: string, validator: ValueValidator<T>, options?: StorageValidatedGetOptions<T>): T | null;
+	public get<T = string>(key: string, options?: StorageGetOptions): T | null;
+	public get<T>(key: string, validatorOrOptions?: ValueValidator<T> | StorageGetOptions, maybeOptions?: StorageValidatedGetOptions<T>): T | null {
+		const validator = Validation.isValidator<T>(validatorOrOptions) ? validatorOrOptions : undefined;
+		const options: StorageValidatedGetOptions<T> = (validator ? maybeOptions : (validatorOrOptions as StorageGetOptions | undefined)) ?? {};
+		const fallback = options.fallback ?? null;
+
+		const driver = this.resolveDriver();
+		if (!driver) {
+			this.warnUnsupported();
+			return fallback;
+		}
+
+		const storageKey = this.keyPrefix + key;
+		const codec = options.codec ?? this.codec;
+		let entry: StorageEntry | null;
+		let value: unknown;
+		try {
+			entry = this.readEntry(driver, storageKey);
+			if (entry === null) return fallback;
+			this.touch(storageKey);
+			value = codec.decode(entry.value);
+		} catch {
+			return fallback;
+		}
+
+		const migrationOptions = this.migrations.get(key);
+		if (migrationOptions && (entry.version ?? 1) !== migrationOptions.version) {
+			try {
+				value = this.migrate(value, entry.version ?? 1, migrationOptions);
+			} catch (error) {
+				this.handleError(error, { key, value, phase: 'migration' });
+				return fallback;
+			}
+			this.writeItem(driver, key, this.serializeEntry(codec.encode(value), entry.expiresAt, migrationOptions.version));
+		}
+		if (!validator) return value as T;
+
+		const result = Validation.run(validator, value);
+		if (result.success) return result.data;
+		this.handleError(result.error, { key, value, phase: 'validation' });
+		return fallback;
+	}
+
+	/**
+	 * Removes an item by key.
+	 *
+	 * @param {string} key - The storage key to remove.
+	 * @returns {void}
+	 */
+	public delete(key: string): void {
+		const driver = this.resolveDriver();
+		if (!driver) {
+			this.warnUnsupported();
+			return;
+		}
+		try {
+			driver.removeItem(this.keyPrefix + key);
+		} catch {
+			console.warn(`${driver.name}.removeItem failed.`);
+		}
+	}
+
+	/**
+	 * Checks if a non-expired item with the given key exists.
+	 *
+	 * @param {string} key - The storage key to check.
+	 * @returns {boolean} True if key exists, false otherwise.
+	 */
+	public has(key: string): boolean {
+		const driver = this.resolveDriver();
+		if (!driver) return false;
+		try {
+			return this.readValue(driver, this.keyPrefix + key) !== null;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Returns all keys of this namespace (without the prefix). Does not parse values or check expiry.
+	 *
+	 * @returns {string[]} Array of keys.
+	 */
+	public keys(): string[] {
+		const driver = this.resolveDriver();
+		if (!driver) return [];
+		return this.storageKeys(driver).map((storageKey) => storageKey.slice(this.keyPrefix.length));
+	}
+
+	/**
+	 * Retrieves all non-expired items of this namespace as a key-value record. Values are decoded with the default codec.
+	 *
+	 * @returns {Record<string, unknown>} Object with all keys and their values.
+	 */
+	public getAll(): Record<string, unknown> {
+		if (!this.resolveDriver()) return {};
+		const result: Record<string, unknown> = {};
+		for (const key of this.keys()) {
+			const value = this.get(key);
+			if (value !== null) result[key] = value;
+		}
+		return result;
+	}
+
+	/**
+	 * Removes all items of this namespace. An unprefixed bucket clears the whole storage.
+	 *
+	 * @returns {void}
+	 */
+	public clear(): void {
+		const driver = this.resolveDriver();
+		if (!driver) {
+			this.warnUnsupported();
+			return;
+		}
+		try {
+			if (!this.keyPrefix) {
+				driver.clear();
+				return;
+			}
+			for (const storageKey of this.storageKeys(driver)) {
+				driver.removeItem(storageKey);
+			}
+		} catch {
+			console.warn(`${driver.name}.clear failed.`);
+		}
+	}
+
+	/**
+	 * Reports approximate usage of this namespace: UTF-16 bytes of each storage key plus its stored value.
+	 *
+	 * @returns {StorageUsage} Bytes per key (without the prefix) and the total.
+	 */
+	public usage(): StorageUsage {
+		const result: StorageUsage = { total: 0, keys: {} };
+		const driver = this.resolveDriver();
+		if (!driver) return result;
+		for (const storageKey of this.storageKeys(driver)) {
+			const bytes = (storageKey.length + (driver.getItem(storageKey) ?? '').length) * 2;
+			result.keys[storageKey.slice(this.keyPrefix.length)] = bytes;
+			result.total += bytes;
+		}
+		return result;
+	}
+
+	/**
+	 * Removes expired items written with `ttl`/`expiresAt`. Keys not written through this util are skipped.
+	 *
+	 * @returns {number} Number of removed items.
+	 */
+	public purgeExpired(): number {
+		const driver = this.resolveDriver();
+		if (!driver) return 0;
+		let removed = 0;
+		for (const storageKey of this.storageKeys(driver)) {
+			try {
+				const entry = this.parseEntry(driver.getItem(storageKey));
+				if (entry && this.isExpired(entry)) {
+					driver.removeItem(storageKey);
+					removed++;
+				}
+			} catch {
+				console.warn(`${driver.name}.removeItem failed.`);
+			}
+		}
+		return removed;
+	}
+
+	/**
+	 * Subscribes to changes of a key, including writes from this tab and from other tabs.
+	 * Values are decoded with the bucket codec, the same way `get` does.
+	 *
+	 * @template T
+	 * @param {string} key - The storage key to watch.
+	 * @param {StorageChangeListener<T>} listener - Called with the new and old values.
+	 * @returns {() => void} Unsubscribe function.
+	 */
+	public subscribe<T = string>(key: string, listener: StorageChangeListener<T>): () => void {
+		let listeners = this.keyListeners.get(key);
+		if (!listeners) {
+			listeners = new Set<StorageChangeListener<unknown>>();
+			this.keyListeners.set(key, listeners);
+		}
+		listeners.add(listener as StorageChangeListener<unknown>);
+		this.attachDriverListener();
+
+		return () => {
+			const current = this.keyListeners.get(key);
+			if (!current?.delete(listener as StorageChangeListener<unknown>)) return;
+			if (current.size === 0) this.keyListeners.delete(key);
+			this.detachDriverListenerIfIdle();
+		};
+	}
+
+	/**
+	 * Subscribes to changes of every key in this namespace.
+	 *
+	 * @param {StorageAnyChangeListener} listener - Called with the key, new and old values.
+	 * @returns {() => void} Unsubscribe function.
+	 */
+	public subscribeAll(listener: StorageAnyChangeListener): () => void {
+		this.anyListeners.add(listener);
+		this.attachDriverListener();
+
+		return () => {
+			if (!this.anyListeners.delete(listener)) return;
+			this.detachDriverListenerIfIdle();
+		};
+	}
+
+	/**
+	 * Returns the primary driver, or the fallback when the primary one is unavailable.
+	 * @private
+	 */
+	private resolveDriver(): StorageDriver | null {
+		if (this.primaryDriver.isAvailable()) return this.primaryDriver;
+		return this.fallbackDriver?.isAvailable() ? this.fallbackDriver : null;
+	}
+
+	private attachDriverListener(): void {
+		if (this.driverUnsubscribe) return;
+		const driver = this.resolveDriver();
+		if (!driver?.subscribe) return;
+		this.driverUnsubscribe = driver.subscribe((storageKey, oldRaw, newRaw) => this.handleDriverChange(storageKey, oldRaw, newRaw));
+	}
+
+	private detachDriverListenerIfIdle(): void {
+		if (this.keyListeners.size > 0 || this.anyListeners.size > 0) return;
+		this.driverUnsubscribe?.();
+		this.driverUnsubscribe = null;
+	}
+
+	private handleDriverChange(storageKey: string | null, oldRaw: string | null, newRaw: string | null): void {
+		if (storageKey === null) {
+			const keyListeners = [...this.keyListeners.values()].flatMap((listeners) => [...listeners]);
+			this.emitChange(null, keyListeners, null, null);
+			return;
+		}
+		if (!storageKey.startsWith(this.keyPrefix)) return;
+
+		const key = storageKey.slice(this.keyPrefix.length);
+		const oldValue = this.decodeRaw(oldRaw);
+		const newValue = this.decodeRaw(newRaw);
+		if (oldValue === null && newValue === null) return;
+		this.emitChange(key, [...(this.keyListeners.get(key) ?? [])], newValue, oldValue);
+	}
+
+	private emitChange(key: string | null, keyListeners: StorageChangeListener<unknown>[], newValue: unknown, oldValue: unknown): void {
+		const calls = [
+			...keyListeners.map((listener) => () => listener(newValue, oldValue)),
+			...[...this.anyListeners].map((listener) => () => listener(key, newValue, oldValue))
+		];
+		for (const call of calls) {
+			try {
+				call();
+			} catch (error) {
+				console.error('[LocalStorageUtil] Listener execution error:', error);
+			}
+		}
+	}
+
+	/**
+	 * Decodes a raw stored value (unwrapping entries without checking expiry). Returns null if missing or undecodable.
+	 * @private
+	 */
+	private decodeRaw(raw: string | null): unknown {
+		if (raw === null) return null;
+		try {
+			return this.codec.decode(this.parseEntry(raw)?.value ?? raw);
+		} catch {
+			return null;
+		}
+	}
+
+	private handleError(error: unknown, context: StorageErrorContext): void {
+		if (this.onError) {
+			this.onError(error, context);
+			return;
+		}
+
+		console.warn(`[LocalStorageUtil] ${context.phase} failed for key "${context.key}":`, error);
+	}
+
+	/**
+	 * Writes a serialized item, evicting least recently used keys and retrying on quota errors when enabled.
+	 * When the value does not fit even after evicting the whole namespace, the evicted items are written back.
+	 * @private
+	 */
+	private writeItem(driver: StorageDriver, key: string, serialized: string): StorageWriteResult {
+		const storageKey = this.keyPrefix + key;
+		const evicted = new Map<string, { raw: string; access?: number }>();
+		for (;;) {
+			try {
+				driver.setItem(storageKey, serialized);
+				this.touch(storageKey);
+				return { ok: true, evicted: [...evicted.keys()].map((victim) => victim.slice(this.keyPrefix.length)) };
+			} catch (error) {
+				if (!StorageBucket.isQuotaError(error)) {
+					console.warn(`${driver.name}.setItem failed.`);
+					this.restoreEvicted(driver, evicted);
+					return { ok: false, reason: 'error', error, evicted: [] };
+				}
+				const victim = this.eviction === 'lru' ? this.findEvictionCandidate(driver, storageKey) : null;
+				if (victim === null) {
+					this.restoreEvicted(driver, evicted);
+					this.handleError(error, { key, value: serialized, phase: 'quota' });
+					return { ok: false, reason: 'quota', error, evicted: [] };
+				}
+				const raw = driver.getItem(victim);
+				if (raw !== null) evicted.set(victim, { raw, access: this.accessOrder.get(victim) });
+				driver.removeItem(victim);
+				this.accessOrder.delete(victim);
+			}
+		}
+	}
+
+	/**
+	 * Writes back items evicted for a write that failed anyway; they only take the space they had before.
+	 * @private
+	 */
+	private restoreEvicted(driver: StorageDriver, evicted: Map<string, { raw: string; access?: number }>): void {
+		for (const [storageKey, { raw, access }] of evicted) {
+			try {
+				driver.setItem(storageKey, raw);
+				if (access !== undefined) this.accessOrder.set(storageKey, access);
+			} catch {
+				console.warn(`${driver.name}.setItem failed while restoring "${storageKey}".`);
+			}
+		}
+	}
+
+	private findEvictionCandidate(driver: StorageDriver, exceptStorageKey: string): string | null {
+		let candidate: string | null = null;
+		let candidateAccess = Infinity;
+		for (const storageKey of this.storageKeys(driver)) {
+			if (storageKey === exceptStorageKey) continue;
+			const access = this.accessOrder.get(storageKey) ?? -1;
+			if (access < candidateAccess) {
+				candidate = storageKey;
+				candidateAccess = access;
+			}
+		}
+		return candidate;
+	}
+
+	private touch(storageKey: string): void {
+		if (this.eviction !== 'lru') return;
+		this.accessOrder.set(storageKey, ++this.accessCounter);
+	}
+
+	private static isQuotaError(error: unknown): boolean {
+		if (typeof error !== 'object' || error === null) return false;
+		const { name, code } = error as { name?: string; code?: number };
+		return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+	}
+
+	private warnUnsupported(): void {
+		console.warn(`${this.primaryDriver.name} is not supported in this environment.`);
+	}
+
+	/**
+	 * Returns full storage keys that belong to this namespace.
+	 * @private
+	 */
+	private storageKeys(driver: StorageDriver): string[] {
+		return driver.keys().filter((storageKey) => storageKey.startsWith(this.keyPrefix));
+	}
+
+	/**
+	 * Reads the stored (codec-encoded) value, unwrapping expiring entries and removing expired ones.
+	 * @private
+	 */
+	private readValue(driver: StorageDriver, storageKey: string): string | null {
+		return this.readEntry(driver, storageKey)?.value ?? null;
+	}
+
+	/**
+	 * Reads the stored entry; plain values are returned as unversioned entries without expiry.
+	 * @private
+	 */
+	private readEntry(driver: StorageDriver, storageKey: string): StorageEntry | null {
+		const raw = driver.getItem(storageKey);
+		if (raw === null) return null;
+		const entry = this.parseEntry(raw);
+		if (!entry) return { __lsu: 1, value: raw };
+		if (this.isExpired(entry)) {
+			driver.removeItem(storageKey);
+			return null;
+		}
+		return entry;
+	}
+
+	private serializeEntry(encoded: string, expiresAt?: number, version?: number): string {
+		// Values that look like an entry are wrapped too, so reading them back cannot mistake them for one.
+		if (expiresAt === undefined && version === undefined && !encoded.startsWith(ENTRY_MARKER)) return encoded;
+		return JSON.stringify({ __lsu: 1, value: encoded, expiresAt, version } satisfies StorageEntry);
+	}
+
+	/**
+	 * Applies migrations one version at a time. Throws when a step is missing or the stored version is newer.
+	 * @private
+	 */
+	private migrate(value: unknown, fromVersion: number, options: StorageMigrationOptions): unknown {
+		if (fromVersion > options.version) {
+			throw new Error(`Stored version ${fromVersion} is newer than the current version ${options.version}.`);
+		}
+		let migrated = value;
+		for (let version = fromVersion + 1; version <= options.version; version++) {
+			const migration = options.migrations[version] as ((value: unknown) => unknown) | undefined;
+			if (!migration) {
+				throw new Error(`Missing migration to version ${version}.`);
+			}
+			migrated = migration(migrated);
+		}
+		return migrated;
+	}
+
+	private parseEntry(raw: string | null): StorageEntry | null {
+		if (raw === null || !raw.startsWith(ENTRY_MARKER)) return null;
+		try {
+			const entry = JSON.parse(raw) as Partial<StorageEntry>;
+			return entry.__lsu === 1 && typeof entry.value === 'string' ? (entry as StorageEntry) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	private isExpired(entry: StorageEntry): boolean {
+		return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+	}
+
+	private resolveExpiresAt(options: StorageSetOptions): number | undefined {
+		if (options.expiresAt !== undefined) {
+			return options.expiresAt instanceof Date ? options.expiresAt.getTime() : options.expiresAt;
+		}
+		return options.ttl !== undefined ? Date.now() + options.ttl : undefined;
+	}
+}
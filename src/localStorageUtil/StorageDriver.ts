@@ -0,0 +1,177 @@
+import { BROWSER } from '../../environment.js';
+
+/**
+ * Raw change notification from a driver. `key` is null when another tab cleared the whole storage.
+ */
+export type StorageDriverListener = (key: string | null, oldValue: string | null, newValue: string | null) => void;
+
+/**
+ * Minimal synchronous key-value backend used by `StorageBucket`.
+ */
+export type StorageDriver = {
+	/** Human-readable backend name used in warnings. */
+	readonly name: string;
+	isAvailable(): boolean;
+	getItem(key: string): string | null;
+	setItem(key: string, value: string): void;
+	removeItem(key: string): void;
+	keys(): string[];
+	clear(): void;
+	/** Optional change feed for writes through the driver (and, for Web Storage, writes from other tabs). */
+	subscribe?(listener: StorageDriverListener): () => void;
+};
+
+/** Key written and removed by `WebStorageDriver#isAvailable`; its `storage` events in other tabs are not reported. */
+const PROBE_KEY = '__storage_test__';
+
+const notifyListeners = (listeners: Set<StorageDriverListener>, key: string | null, oldValue: string | null, newValue: string | null): void => {
+	if (key !== null && oldValue === newValue) return;
+	for (const listener of [...listeners]) {
+		try {
+			listener(key, oldValue, newValue);
+		} catch (error) {
+			console.error('[StorageDriver] Listener execution error:', error);
+		}
+	}
+};
+
+/**
+ * Driver over `window.localStorage` or `window.sessionStorage`.
+ * Change listeners receive writes made through the driver and `storage` events from other tabs.
+ */
+export class WebStorageDriver implements StorageDriver {
+	public readonly name: string;
+	private readonly area: 'localStorage' | 'sessionStorage';
+	private readonly listeners = new Set<StorageDriverListener>();
+	private readonly handleStorageEvent = (event: StorageEvent): void => {
+		if (event.storageArea !== this.storage || event.key === PROBE_KEY) return;
+		notifyListeners(this.listeners, event.key, event.oldValue, event.newValue);
+	};
+
+	constructor(area: 'localStorage' | 'sessionStorage') {
+		this.area = area;
+		this.name = area;
+	}
+
+	/**
+	 * Checks if the storage area is available in the current environment.
+	 * @returns {boolean} True if running in browser and the storage area accepts writes.
+	 */
+	public isAvailable(): boolean {
+		if (!BROWSER || typeof window === 'undefined') return false;
+		try {
+			this.storage.setItem(PROBE_KEY, '');
+			this.storage.removeItem(PROBE_KEY);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	public getItem(key: string): string | null {
+		return this.storage.getItem(key);
+	}
+
+	public setItem(key: string, value: string): void {
+		const oldValue = this.listeners.size > 0 ? this.storage.getItem(key) : null;
+		this.storage.setItem(key, value);
+		notifyListeners(this.listeners, key, oldValue, value);
+	}
+
+	public removeItem(key: string): void {
+		const oldValue = this.listeners.size > 0 ? this.storage.getItem(key) : null;
+		this.storage.removeItem(key);
+		notifyListeners(this.listeners, key, oldValue, null);
+	}
+
+	public keys(): string[] {
+		const n = this.storage.length;
+		const result: string[] = [];
+		for (let i = 0; i < n; i++) {
+			const key = this.storage.key(i);
+			if (key !== null) result.push(key);
+		}
+		return result;
+	}
+
+	public clear(): void {
+		const entries = this.listeners.size > 0 ? this.keys().map((key) => [key, this.storage.getItem(key)] as const) : [];
+		this.storage.clear();
+		for (const [key, oldValue] of entries) {
+			notifyListeners(this.listeners, key, oldValue, null);
+		}
+	}
+
+	public subscribe(listener: StorageDriverListener): () => void {
+		if (this.listeners.size === 0 && typeof window !== 'undefined') {
+			window.addEventListener('storage', this.handleStorageEvent);
+		}
+		this.listeners.add(listener);
+		return () => {
+			if (!this.listeners.delete(listener) || this.listeners.size > 0 || typeof window === 'undefined') return;
+			window.removeEventListener('storage', this.handleStorageEvent);
+		};
+	}
+
+	private get storage(): Storage {
+		return window[this.area];
+	}
+}
+
+/**
+ * In-memory driver. Works in every environment and is handy for unit tests.
+ */
+export class MemoryStorageDriver implements StorageDriver {
+	public readonly name = 'memoryStorage';
+	private readonly items = new Map<string, string>();
+	private readonly listeners = new Set<StorageDriverListener>();
+
+	public isAvailable(): boolean {
+		return true;
+	}
+
+	public getItem(key: string): string | null {
+		return this.items.get(key) ?? null;
+	}
+
+	public setItem(key: string, value: string): void {
+		const oldValue = this.getItem(key);
+		this.items.set(key, String(value));
+		notifyListeners(this.listeners, key, oldValue, String(value));
+	}
+
+	public removeItem(key: string): void {
+		const oldValue = this.getItem(key);
+		this.items.delete(key);
+		notifyListeners(this.listeners, key, oldValue, null);
+	}
+
+	public keys(): string[] {
+		return [...this.items.keys()];
+	}
+
+	public clear(): void {
+		const entries = [...this.items];
+		this.items.clear();
+		for (const [key, oldValue] of entries) {
+			notifyListeners(this.listeners, key, oldValue, null);
+		}
+	}
+
+	public subscribe(listener: StorageDriverListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+}
+
+/**
+ * Shared driver instances.
+ */
+export class StorageDrivers {
+	static readonly local: StorageDriver = new WebStorageDriver('localStorage');
+	static readonly session: StorageDriver = new WebStorageDriver('sessionStorage');
+	/** Process-wide in-memory store, used as the browser fallback when Web Storage is unavailable. */
+	static readonly memory: StorageDriver = new MemoryStorageDriver();
+}
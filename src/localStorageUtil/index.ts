@@ -1 +1,3 @@
 export * from './LocalStorageUtil.js';
+export * from './StorageBucket.js';
+export * from './StorageDriver.js';
@@ -0,0 +1,123 @@
+/**
+ * Converts values to and from the string representation kept in cookies or Web Storage.
+ */
+export type ValueCodec = {
+	encode(value: unknown): string;
+	decode(raw: string): unknown;
+};
+
+type TaggedValue =
+	| { __t: 'Date'; v: number | null }
+	| { __t: 'Map' | 'Set' | 'Object'; v: unknown[] }
+	| { __t: 'BigInt'; v: string }
+	| { __t: 'undefined' };
+
+const TAG_KEY = '__t';
+
+/**
+ * Built-in value codecs used by `Cookies`, `CookieJar` and `LocalStorageUtil`.
+ */
+export class ValueCodecs {
+	/**
+	 * Default codec: strings are stored as-is, other values as JSON; decoding tries `JSON.parse`
+	 * and falls back to the raw string. Note that a stored string like "123" is read back as a number.
+	 */
+	static readonly auto: ValueCodec = {
+		encode: (value) => (typeof value === 'string' ? value : JSON.stringify(value)),
+		decode: (raw) => {
+			try {
+				return JSON.parse(raw);
+			} catch {
+				return raw;
+			}
+		}
+	};
+
+	/**
+	 * Always JSON-encodes, so strings round-trip as strings. Raw values that are not valid JSON
+	 * (e.g. written by the `auto` codec) are returned as strings.
+	 */
+	static readonly json: ValueCodec = {
+		encode: (value) => JSON.stringify(value),
+		decode: (raw) => {
+			try {
+				return JSON.parse(raw);
+			} catch {
+				return raw;
+			}
+		}
+	};
+
+	/**
+	 * Stores `String(value)` and returns the raw string without any parsing.
+	 */
+	static readonly string: ValueCodec = {
+		encode: (value) => String(value),
+		decode: (raw) => raw
+	};
+
+	/**
+	 * Tagged JSON that round-trips `Date`, `Map`, `Set`, `BigInt` and `undefined` (including nested values).
+	 */
+	static readonly typedJson: ValueCodec = {
+		encode: (value) => JSON.stringify(ValueCodecs.toTagged(value)),
+		decode: (raw) => ValueCodecs.fromTagged(JSON.parse(raw))
+	};
+
+	private static toTagged(value: unknown): unknown {
+		if (value === undefined) return { __t: 'undefined' } satisfies TaggedValue;
+		if (typeof value === 'bigint') return { __t: 'BigInt', v: value.toString() } satisfies TaggedValue;
+		if (value === null || typeof value !== 'object') return value;
+
+		if (value instanceof Date) {
+			const time = value.getTime();
+			return { __t: 'Date', v: Number.isNaN(time) ? null : time } satisfies TaggedValue;
+		}
+		if (value instanceof Map) {
+			return { __t: 'Map', v: [...value.entries()].map(([key, entry]) => [this.toTagged(key), this.toTagged(entry)]) } satisfies TaggedValue;
+		}
+		if (value instanceof Set) {
+			return { __t: 'Set', v: [...value].map((entry) => this.toTagged(entry)) } satisfies TaggedValue;
+		}
+		if (Array.isArray(value)) {
+			return value.map((entry) => this.toTagged(entry));
+		}
+		if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+			return this.toTagged((value as { toJSON: () => unknown }).toJSON());
+		}
+
+		const entries = Object.entries(value).map(([key, entry]) => [key, this.toTagged(entry)] as const);
+		if (Object.prototype.hasOwnProperty.call(value, TAG_KEY)) {
+			// Escape user objects that collide with the tag key.
+			return { __t: 'Object', v: entries } satisfies TaggedValue;
+		}
+		return Object.fromEntries(entries);
+	}
+
+	private static fromTagged(value: unknown): unknown {
+		if (value === null || typeof value !== 'object') return value;
+		if (Array.isArray(value)) return value.map((entry) => this.fromTagged(entry));
+
+		if (!Object.prototype.hasOwnProperty.call(value, TAG_KEY)) {
+			return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, this.fromTagged(entry)]));
+		}
+
+		const tagged = value as TaggedValue;
+		switch (tagged.__t) {
+			case 'undefined':
+				return undefined;
+			case 'BigInt':
+				return BigInt(tagged.v);
+			case 'Date':
+				return new Date(tagged.v ?? NaN);
+			case 'Map':
+				return new Map((tagged.v as [unknown, unknown][]).map(([key, entry]) => [this.fromTagged(key), this.fromTagged(entry)]));
+			case 'Set':
+				return new Set(tagged.v.map((entry) => this.fromTagged(entry)));
+			case 'Object':
+				return Object.fromEntries((tagged.v as [string, unknown][]).map(([key, entry]) => [key, this.fromTagged(entry)]));
+			default:
+				return value;
+		}
+	}
+}
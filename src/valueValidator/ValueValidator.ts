@@ -0,0 +1,50 @@
+/**
+ * Anything that can check an unknown value: a type guard, or a schema object with `safeParse`/`parse`
+ * (e.g. Zod schemas). No validation library is required.
+ */
+export type ValueValidator<T> =
+	| ((value: unknown) => value is T)
+	| { safeParse(value: unknown): { success: true; data: T } | { success: false; error: unknown } }
+	| { parse(value: unknown): T };
+
+export type ValueValidationResult<T> = { success: true; data: T } | { success: false; error: unknown };
+
+/**
+ * Runs `ValueValidator`s in a library-agnostic way.
+ */
+export class Validation {
+	/**
+	 * Checks if the argument looks like a validator (function or object with `parse`/`safeParse`).
+	 *
+	 * @param {unknown} candidate - Value to inspect.
+	 * @returns {boolean} True if `candidate` can be passed to `Validation.run`.
+	 */
+	static isValidator<T>(candidate: unknown): candidate is ValueValidator<T> {
+		if (typeof candidate === 'function') return true;
+		if (candidate === null || typeof candidate !== 'object') return false;
+		return typeof (candidate as { safeParse?: unknown }).safeParse === 'function' || typeof (candidate as { parse?: unknown }).parse === 'function';
+	}
+
+	/**
+	 * Validates a value. Schema objects may transform the value; type guards return it unchanged.
+	 *
+	 * @template T
+	 * @param {ValueValidator<T>} validator - Type guard or schema.
+	 * @param {unknown} value - Value to check.
+	 * @returns {ValueValidationResult<T>} `{ success: true, data }` or `{ success: false, error }`.
+	 */
+	static run<T>(validator: ValueValidator<T>, value: unknown): ValueValidationResult<T> {
+		try {
+			if (typeof validator === 'function') {
+				return validator(value) ? { success: true, data: value } : { success: false, error: new TypeError('Value did not pass the type guard.') };
+			}
+			if ('safeParse' in validator && typeof validator.safeParse === 'function') {
+				const result = validator.safeParse(value);
+				return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+			}
+			return { success: true, data: (validator as { parse(value: unknown): T }).parse(value) };
+		} catch (error) {
+			return { success: false, error };
+		}
+	}
+}
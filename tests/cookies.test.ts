@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Cookies } from '../src/cookies/Cookies.js';
+import { CookieJar, type CookieStorage } from '../src/cookies/CookieJar.js';
+import { CookieConsent } from '../src/cookies/CookieConsent.js';
+import { ValueCodecs } from '../src/valueCodec/ValueCodec.js';
 
 describe('Cookies', () => {
 	beforeEach(() => {
@@ -43,4 +46,310 @@ describe('Cookies', () => {
 	it('throws on invalid key', () => {
 		expect(() => Cookies.set('invalid key!', 'v')).toThrow();
 	});
+	it('validates values with type guards and schemas', () => {
+		const isUser = (value: unknown): value is { name: string } => typeof (value as { name?: unknown })?.name === 'string';
+		const onError = vi.fn();
+		Cookies.setErrorHandler(onError);
+		Cookies.set('user', { name: 42 });
+
+		expect(Cookies.get('user', isUser)).toBeNull();
+		expect(Cookies.get('user', isUser, { fallback: { name: 'guest' } })).toEqual({ name: 'guest' });
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), { key: 'user', value: { name: 42 }, phase: 'validation' });
+
+		const schema = { parse: (value: unknown) => ({ name: String((value as { name: unknown }).name) }) };
+		expect(Cookies.get('user', schema)).toEqual({ name: '42' });
+		Cookies.setErrorHandler();
+	});
+	it('static Cookies satisfies CookieStorage', () => {
+		const storage: CookieStorage = Cookies;
+		storage.set('shared', 'yes');
+		expect(storage.get('shared')).toBe('yes');
+	});
+	it('uses per-call codec', () => {
+		Cookies.set('code', '123', { codec: ValueCodecs.json });
+		expect(Cookies.get('code', { codec: ValueCodecs.json })).toBe('123');
+		expect(Cookies.get('code', { codec: ValueCodecs.string })).toBe('"123"');
+	});
+	it('purges cookies of revoked consent categories', () => {
+		const consent = new CookieConsent({ granted: ['analytics'] }).register('_ga*', 'analytics');
+		Cookies.setConsent(consent);
+		Cookies.set('_ga_id', '1');
+		Cookies.set('session', 'abc');
+		expect(Cookies.get('_ga_id')).toBe(1);
+
+		consent.revoke('analytics');
+		expect(Cookies.has('_ga_id')).toBe(false);
+		expect(Cookies.get('session')).toBe('abc');
+		Cookies.setConsent();
+	});
+	it('notifies subscribers of own writes with decoded values', () => {
+		const listener = vi.fn();
+		const unsubscribe = Cookies.subscribe('prefs', listener);
+		Cookies.set('prefs', { dark: true });
+		Cookies.set('other', '1');
+		Cookies.delete('prefs');
+		unsubscribe();
+		Cookies.set('prefs', 'again');
+
+		expect(listener.mock.calls).toEqual([
+			[{ dark: true }, null],
+			[null, { dark: true }]
+		]);
+	});
+	it('notifies subscribers once per chunked write with the complete value', () => {
+		Cookies.set('draft', 'a'.repeat(9000), { chunked: true, codec: ValueCodecs.string });
+		const listener = vi.fn();
+		const unsubscribe = Cookies.subscribe('draft', listener, { codec: ValueCodecs.string });
+
+		Cookies.set('draft', 'b'.repeat(9000), { chunked: true, codec: ValueCodecs.string });
+		unsubscribe();
+		Cookies.set('draft', '', { expires: new Date(0) });
+
+		expect(listener.mock.calls).toEqual([['b'.repeat(9000), 'a'.repeat(9000)]]);
+	});
+	it('polls document.cookie for external changes', () => {
+		vi.useFakeTimers();
+		const listener = vi.fn();
+		const unsubscribe = Cookies.subscribe('auth', listener, { codec: ValueCodecs.string });
+		document.cookie = 'auth=token-1';
+		expect(listener).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(1000);
+		expect(listener).toHaveBeenCalledWith('token-1', null);
+
+		unsubscribe();
+		vi.useRealTimers();
+	});
+	it('uses the CookieStore change event when available', () => {
+		const cookieStore = new EventTarget();
+		vi.stubGlobal('cookieStore', cookieStore);
+		const listener = vi.fn();
+		const unsubscribe = Cookies.subscribe('refresh', listener);
+		document.cookie = 'refresh=42';
+		cookieStore.dispatchEvent(new Event('change'));
+		expect(listener).toHaveBeenCalledWith(42, null);
+
+		unsubscribe();
+		vi.unstubAllGlobals();
+	});
+});
+
+describe('CookieJar', () => {
+	it('reads values from a Cookie header', () => {
+		const jar = new CookieJar('theme=dark; user=%7B%22name%22%3A%22Alice%22%7D');
+		expect(jar.get('theme')).toBe('dark');
+		expect(jar.get<{ name: string }>('user')).toEqual({ name: 'Alice' });
+		expect(jar.has('missing')).toBe(false);
+		expect(jar.getAll()).toEqual({ theme: 'dark', user: { name: 'Alice' } });
+	});
+	it('collects Set-Cookie headers and reflects writes', () => {
+		const jar = Cookies.fromHeader('theme=dark');
+		jar.set('theme', 'light', { path: '/', maxAge: 60, secure: true, sameSite: 'Lax' });
+		expect(jar.get('theme')).toBe('light');
+		expect(jar.getSetCookieHeaders()).toEqual(['theme=light; max-age=60; path=/; secure; SameSite=Lax']);
+	});
+	it('delete emits an expired cookie and hides the value', () => {
+		const jar = new CookieJar('a=1; b=2');
+		jar.delete('a', '/');
+		expect(jar.has('a')).toBe(false);
+		expect(jar.getSetCookieHeaders()).toEqual(['a=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/']);
+		jar.clear();
+		expect(jar.getAll()).toEqual({});
+	});
+	it('tolerates malformed and empty headers', () => {
+		expect(new CookieJar(null).getAll()).toEqual({});
+		expect(new CookieJar('bad=%E0%A4%A').get('bad')).toBe('%E0%A4%A');
+	});
+	it('throws on invalid key', () => {
+		expect(() => new CookieJar().set('invalid key!', 'v')).toThrow();
+	});
+	it('reports safeParse failures through onError', () => {
+		const onError = vi.fn();
+		const jar = new CookieJar('count=abc', { onError });
+		const schema = {
+			safeParse: (value: unknown) =>
+				typeof value === 'number' ? { success: true as const, data: value } : { success: false as const, error: new Error('not a number') }
+		};
+
+		expect(jar.get('count', schema, { fallback: 0 })).toBe(0);
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(jar.get('missing', schema)).toBeNull();
+	});
+	it('serializes Partitioned and Priority', () => {
+		const jar = new CookieJar();
+		jar.set('embed', '1', { secure: true, sameSite: 'None', partitioned: true, priority: 'High' });
+		expect(jar.getSetCookieHeaders()).toEqual(['embed=1; secure; SameSite=None; Partitioned; Priority=High']);
+	});
+	it('enforces cookie prefix rules', () => {
+		const jar = new CookieJar();
+		expect(() => jar.set('__Secure-id', '1')).toThrow(/__Secure-/);
+		expect(() => jar.set('__Host-id', '1', { secure: true })).toThrow(/__Host-/);
+		expect(() => jar.set('__Host-id', '1', { secure: true, path: '/', domain: 'example.com' })).toThrow(/__Host-/);
+
+		jar.set('__Secure-id', '1', { secure: true });
+		jar.set('__Host-id', '2', { secure: true, path: '/' });
+		expect(jar.get('__Host-id')).toBe(2);
+
+		jar.delete('__Host-id');
+		expect(jar.getSetCookieHeaders()[1]).toBe('__Host-id=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/; secure');
+	});
+	it('requires secure for SameSite=None and Partitioned', () => {
+		const jar = new CookieJar();
+		expect(() => jar.set('a', '1', { sameSite: 'None' })).toThrow(/SameSite=None/);
+		expect(() => jar.set('a', '1', { partitioned: true })).toThrow(/Partitioned/);
+	});
+	it('rejects cookies over 4096 bytes', () => {
+		const jar = new CookieJar();
+		expect(() => jar.set('big', 'x'.repeat(4093))).not.toThrow();
+		expect(() => jar.set('big', 'x'.repeat(4094))).toThrow(/4096-byte/);
+	});
+	it('uses the jar codec', () => {
+		const jar = new CookieJar(null, { codec: ValueCodecs.typedJson });
+		jar.set('since', new Date(0));
+		expect(jar.get<Date>('since')).toEqual(new Date(0));
+		expect(jar.getAll()['since']).toBeInstanceOf(Date);
+	});
+	it('signs and verifies values', async () => {
+		const jar = new CookieJar();
+		await jar.setSigned('session', { id: 1 }, { secrets: 'secret-a' });
+		expect(await jar.getSigned('session', { secrets: 'secret-a' })).toEqual({ id: 1 });
+		expect(await jar.verifySigned('other', { secrets: 'secret-a' })).toEqual({ status: 'missing', value: null });
+
+		const raw = jar.get('session', { codec: ValueCodecs.string }) as string;
+		jar.set('session', raw.replace('1', '2'), { codec: ValueCodecs.string });
+		expect(await jar.verifySigned('session', { secrets: 'secret-a' })).toEqual({ status: 'tampered', value: null });
+		expect(await jar.getSigned('session', { secrets: 'secret-a' })).toBeNull();
+	});
+	it('binds signatures to the cookie name', async () => {
+		const jar = new CookieJar();
+		await jar.setSigned('a', 'value', { secrets: 'secret' });
+		jar.set('b', jar.get('a', { codec: ValueCodecs.string }), { codec: ValueCodecs.string });
+		expect((await jar.verifySigned('b', { secrets: 'secret' })).status).toBe('tampered');
+	});
+	it('accepts rotated secrets', async () => {
+		const jar = new CookieJar();
+		await jar.setSigned('token', 'abc', { secrets: 'old' });
+		await jar.setEncrypted('secret', 'xyz', { secrets: 'old' });
+		expect(await jar.getSigned('token', { secrets: ['new', 'old'] })).toBe('abc');
+		expect(await jar.getEncrypted('secret', { secrets: ['new', 'old'] })).toBe('xyz');
+		expect(await jar.getSigned('token', { secrets: 'new' })).toBeNull();
+	});
+	it('keeps a bounded cache of imported keys', async () => {
+		const importKey = vi.spyOn(globalThis.crypto.subtle, 'importKey');
+		const jar = new CookieJar();
+		await jar.setSigned('token', 'abc', { secrets: 'first' });
+		await jar.getSigned('token', { secrets: 'first' });
+		expect(importKey).toHaveBeenCalledTimes(1);
+
+		for (let i = 0; i < 16; i++) await jar.setSigned('token', 'abc', { secrets: `rotated-${i}` });
+		importKey.mockClear();
+		await jar.setSigned('token', 'abc', { secrets: 'first' });
+		expect(importKey).toHaveBeenCalledTimes(1);
+		importKey.mockRestore();
+	});
+	it('encrypts and decrypts values', async () => {
+		const jar = new CookieJar(null, { codec: ValueCodecs.typedJson });
+		await jar.setEncrypted('prefs', { since: new Date(0) }, { secrets: 'secret', path: '/' });
+		expect(jar.getSetCookieHeaders()[0]).not.toContain('since');
+		expect(await jar.getEncrypted('prefs', { secrets: 'secret' })).toEqual({ since: new Date(0) });
+		expect(await jar.verifyEncrypted('prefs', { secrets: 'wrong' })).toEqual({ status: 'tampered', value: null });
+	});
+	it('maps keys and patterns to consent categories', () => {
+		const consent = new CookieConsent({ defaultCategory: 'preferences' })
+			.register('_ga*', 'analytics')
+			.register(/^ad_/, 'marketing')
+			.register('_ga_keep', 'necessary');
+		expect(consent.categoryOf('_ga_123')).toBe('analytics');
+		expect(consent.categoryOf('_ga_keep')).toBe('necessary');
+		expect(consent.categoryOf('ad_click')).toBe('marketing');
+		expect(consent.categoryOf('theme')).toBe('preferences');
+
+		consent.revoke('necessary');
+		expect(consent.granted()).toEqual(['necessary']);
+	});
+	it('blocks writes without consent', () => {
+		const onError = vi.fn();
+		const consent = new CookieConsent().register('_ga*', 'analytics');
+		const jar = new CookieJar(null, { consent, onError });
+		jar.set('_ga_id', '1');
+		jar.set('session', 'abc');
+
+		expect(jar.has('_ga_id')).toBe(false);
+		expect(jar.get('session')).toBe('abc');
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), { key: '_ga_id', value: '1', phase: 'consent' });
+
+		consent.grant('analytics');
+		expect(jar.has('_ga_id')).toBe(false);
+	});
+	it('queues writes until consent is granted', () => {
+		const consent = new CookieConsent({ mode: 'queue' }).register('_ga*', 'analytics', { path: '/' });
+		const jar = new CookieJar(null, { consent });
+		jar.set('_ga_id', '1', { path: '/' });
+		jar.set('_ga_id', '2', { path: '/' });
+		jar.set('_ga_other', 'x');
+		jar.delete('_ga_other');
+		expect(jar.getSetCookieHeaders().filter((header) => !header.startsWith('_ga_other='))).toEqual([]);
+
+		consent.grant('analytics');
+		expect(jar.get('_ga_id')).toBe(2);
+		expect(jar.has('_ga_other')).toBe(false);
+
+		consent.revoke('analytics');
+		expect(jar.has('_ga_id')).toBe(false);
+		expect(jar.getSetCookieHeaders()).toContain('_ga_id=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/');
+	});
+	it('stops following consent changes once disposed', () => {
+		const consent = new CookieConsent({ mode: 'queue' }).register('_ga*', 'analytics');
+		const jar = new CookieJar(null, { consent });
+		jar.set('_ga_id', '1');
+
+		jar.dispose();
+		consent.grant('analytics');
+
+		expect(jar.has('_ga_id')).toBe(false);
+	});
+	it('splits large values into chunks when chunked is set', () => {
+		const jar = new CookieJar();
+		const value = { text: 'é'.repeat(1000) + 'x'.repeat(4000) };
+		expect(() => jar.set('big', value)).toThrow(/4096-byte/);
+
+		jar.set('big', value, { chunked: true, path: '/' });
+		const headers = jar.getSetCookieHeaders();
+		expect(headers.map((header) => header.split('=')[0])).toEqual(['big.0', 'big.1', 'big.2', 'big']);
+		expect(headers.every((header) => header.split(';')[0]!.length <= 4096)).toBe(true);
+		expect(headers[3]).toBe('big=__chunks:3; path=/');
+
+		expect(jar.get('big')).toEqual(value);
+		expect(jar.has('big')).toBe(true);
+		expect(Object.keys(jar.getAll())).toEqual(['big']);
+		expect(jar.getAll()['big']).toEqual(value);
+	});
+	it('reads chunked cookies from a Cookie header', () => {
+		const jar = new CookieJar('big=__chunks:2; big.0=%7B%22a%22%3A; big.1=1%7D');
+		expect(jar.get('big')).toEqual({ a: 1 });
+		expect(new CookieJar('big=__chunks:2; big.0=%7B%22a%22%3A').get('big')).toBeNull();
+	});
+	it('removes stale chunks on smaller writes and delete', () => {
+		const jar = new CookieJar('big=__chunks:3; big.0=a; big.1=b; big.2=c');
+		jar.set('big', 'x'.repeat(5000), { chunked: true });
+		expect(jar.getSetCookieHeaders().map((header) => header.split('=')[0])).toEqual(['big.0', 'big.1', 'big', 'big.2']);
+		expect(jar.get('big')).toBe('x'.repeat(5000));
+
+		jar.set('big', 'small', { chunked: true });
+		expect(jar.get('big')).toBe('small');
+		expect(jar.has('big.0')).toBe(false);
+
+		jar.set('big', 'x'.repeat(5000), { chunked: true });
+		jar.delete('big');
+		expect(Object.keys(jar.getAll())).toEqual([]);
+	});
+	it('keeps unrelated cookies named like chunks', () => {
+		const jar = new CookieJar('session=abc; session.1=other; big=__chunks:1; big.0=a; big.1=b');
+		jar.set('session', 'def');
+		jar.set('big', 'small', { chunked: true });
+
+		expect(jar.get('session.1')).toBe('other');
+		expect(jar.get('big.1')).toBe('b');
+		expect(jar.has('big.0')).toBe(false);
+	});
 });
@@ -1,4 +1,4 @@
-import { afterEach, describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import { DateUtil } from '../src/dateUtil/DateUtil.js';
 
 afterEach(() => {
@@ -85,6 +85,41 @@ describe('DateUtil', () => {
 			expect(DateUtil.toFormat('2024-12-22', 'yyyy-mm-dd')).toBe('2024-12-22');
 			expect(DateUtil.toFormat('2024-09-12', 'dd.mm.yy')).toBe('12.09.24');
 		});
+
+		it('formats names, 12-hour clock and milliseconds', () => {
+			const settings = { utc: true, locale: 'en' };
+			expect(DateUtil.toFormat('2024-03-05T14:07:09.045Z', 'EEEE, EEE d MMM yyyy h:ii a', settings)).toBe('Tuesday, Tue 5 Mar 2024 2:07 PM');
+			expect(DateUtil.toFormat('2024-03-05T00:07:09.045Z', 'hh:ii:ss.SSS a', settings)).toBe('12:07:09.045 AM');
+			expect(DateUtil.toFormat('2024-03-05T14:07:09Z', 'EEEE d MM', { utc: true, locale: 'de' })).toBe('Dienstag 5 Marz');
+		});
+
+		it('formats offsets, quarters and ISO weeks', () => {
+			expect(DateUtil.toFormat('2024-03-05T14:07:09Z', 'XXX Z', true)).toBe('Z +0000');
+			expect(DateUtil.toFormat('2024-03-05T23:30:00Z', 'yyyy-mm-dd HH:ii XXX Z', { timeZone: 'Asia/Kolkata' })).toBe('2024-03-06 05:00 +05:30 +0530');
+			expect(DateUtil.toFormat('2024-03-05T12:00:00Z', 'XXX', { timeZone: 'America/New_York' })).toBe('-05:00');
+			expect(DateUtil.toFormat('2024-08-15', 'Q')).toBe('3');
+			expect(DateUtil.toFormat('2021-01-03', 'W')).toBe('53');
+			expect(DateUtil.toFormat('2024-12-30', 'WW')).toBe('01');
+			expect(DateUtil.toFormat('2024-03-05', 'WW')).toBe('10');
+		});
+
+		it('reuses Intl name tables per locale', () => {
+			const settings = { utc: true, locale: 'fr' };
+			const pattern = 'EEEE, EEE d MMM MM a';
+			const first = DateUtil.toFormat('2024-03-05T14:07:09Z', pattern, settings);
+			const DateTimeFormat = vi.spyOn(Intl, 'DateTimeFormat');
+
+			expect(DateUtil.toFormat('2024-03-05T14:07:09Z', pattern, settings)).toBe(first);
+			expect(DateUtil.toFormat('2024-07-06T02:07:09Z', pattern, settings)).not.toBe(first);
+			expect(DateTimeFormat).not.toHaveBeenCalled();
+			DateTimeFormat.mockRestore();
+		});
+
+		it('copies quoted literals', () => {
+			expect(DateUtil.toFormat('2024-03-05T14:07:09Z', "d MM 'at' HH:ii 'o''clock' ''", { utc: true, locale: 'en' })).toBe(
+				"5 March at 14:07 o'clock '"
+			);
+		});
 	});
 
 	describe('locale resolution', () => {
@@ -1,5 +1,6 @@
 import { describe, it, expect, expectTypeOf, vi } from 'vitest';
-import { EventBus } from '../src/eventBus/EventBus.js';
+import { EventBus, EventBusRequestError, EventBusWaitError } from '../src/eventBus/EventBus.js';
+import { EventPatterns, type EventPatternMatch } from '../src/eventBus/EventPattern.js';
 
 type TestEvents = {
 	ev: number;
@@ -9,6 +10,19 @@ type TestEvents = {
 	error: { message: string };
 };
 
+type NamespacedEvents = {
+	'user:login': { id: number };
+	'user:logout': { id: number; reason: string };
+	'user:profile:update': { name: string };
+	'cart.item.added': { sku: string };
+	'cart.cleared': null;
+};
+
+type TestRequests = {
+	currentUser: { params: void; result: { id: number } | null };
+	sum: { params: number[]; result: number };
+};
+
 describe('EventBus', () => {
 	it('publish calls subscribed listeners', async () => {
 		const bus = new EventBus<TestEvents>();
@@ -155,4 +169,370 @@ describe('EventBus', () => {
 		// @ts-expect-error wrong event payload factory type
 		await bus.publish('ev', () => 'wrong');
 	});
+	it('runs listeners by priority, then subscription order', async () => {
+		const bus = new EventBus<TestEvents>();
+		const calls: string[] = [];
+		bus.subscribe('ev', () => {
+			calls.push('default');
+		});
+		bus.subscribe(
+			'ev',
+			() => {
+				calls.push('low');
+			},
+			{ priority: -1 }
+		);
+		bus.subscribe(
+			'ev',
+			() => {
+				calls.push('high');
+			},
+			{ priority: 10 }
+		);
+		bus.subscribe('ev', () => {
+			calls.push('default-2');
+		});
+
+		await bus.publish('ev', () => 1);
+		expect(calls).toEqual(['high', 'default', 'default-2', 'low']);
+	});
+	it('matches single-segment and multi-segment patterns', async () => {
+		const bus = new EventBus<NamespacedEvents>();
+		const user = vi.fn();
+		const cart = vi.fn();
+		bus.subscribePattern('user:*', user);
+		bus.subscribePattern('cart.**', cart);
+
+		await bus.publish('user:login', () => ({ id: 1 }));
+		await bus.publish('user:profile:update', () => ({ name: 'A' }));
+		await bus.publish('cart.item.added', () => ({ sku: 'x' }));
+		await bus.publish('cart.cleared', () => null);
+
+		expect(user.mock.calls).toEqual([[{ id: 1 }, 'user:login']]);
+		expect(cart.mock.calls).toEqual([
+			[{ sku: 'x' }, 'cart.item.added'],
+			[null, 'cart.cleared']
+		]);
+	});
+	it('does not let * match an empty segment', () => {
+		expect(EventPatterns.matches('user.*', 'user.')).toBe(false);
+		expect(EventPatterns.matches('a.*.b', 'a..b')).toBe(false);
+		expect(EventPatterns.matches('a.*.b', 'a.x.b')).toBe(true);
+		expectTypeOf<EventPatternMatch<'user.', 'user.*'>>().toEqualTypeOf<false>();
+		expectTypeOf<EventPatternMatch<'a..b', 'a.*.b'>>().toEqualTypeOf<false>();
+		expectTypeOf<EventPatternMatch<'a.x.b', 'a.*.b'>>().toEqualTypeOf<true>();
+	});
+	it('orders pattern and exact listeners together and unsubscribes patterns', async () => {
+		const bus = new EventBus<NamespacedEvents>();
+		const calls: string[] = [];
+		bus.subscribe('user:login', () => {
+			calls.push('exact');
+		});
+		const pattern = () => {
+			calls.push('pattern');
+		};
+		bus.subscribePattern('user:*', pattern, { priority: 1 });
+
+		await bus.publish('user:login', () => ({ id: 1 }));
+		expect(bus.unsubscribePattern('user:*', pattern)).toBe(true);
+		await bus.publish('user:login', () => ({ id: 2 }));
+
+		expect(calls).toEqual(['pattern', 'exact', 'exact']);
+	});
+	it('types pattern payloads as unions of matched events', () => {
+		const bus = new EventBus<NamespacedEvents>();
+		bus.subscribePattern('user:*', (payload, event) => {
+			expectTypeOf(event).toEqualTypeOf<'user:login' | 'user:logout'>();
+			if (event === 'user:logout') {
+				expectTypeOf(payload).toEqualTypeOf<{ id: number; reason: string }>();
+			}
+		});
+		bus.subscribePattern('user:*:update', (payload) => {
+			expectTypeOf(payload).toEqualTypeOf<{ name: string }>();
+		});
+
+		// @ts-expect-error pattern matches no event
+		bus.subscribePattern('order:*', () => {});
+	});
+	it('runs listeners concurrently in parallel mode', async () => {
+		const bus = new EventBus<TestEvents>();
+		const calls: string[] = [];
+		const slow = async (name: string, ms: number) => {
+			calls.push(`${name}:start`);
+			await new Promise((resolve) => setTimeout(resolve, ms));
+			calls.push(`${name}:end`);
+		};
+		bus.subscribe('ev', () => slow('a', 20));
+		bus.subscribe('ev', () => slow('b', 5));
+
+		await bus.publish('ev', () => 1, { mode: 'parallel' });
+		expect(calls).toEqual(['a:start', 'b:start', 'b:end', 'a:end']);
+
+		calls.length = 0;
+		await bus.publish('ev', () => 1);
+		expect(calls).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+	});
+	it('reports timed-out listeners with the timeout phase and moves on', async () => {
+		const onError = vi.fn();
+		const bus = new EventBus<TestEvents>({}, { onError });
+		const next = vi.fn();
+		bus.subscribe('ev', () => new Promise<void>(() => {}));
+		bus.subscribe('ev', next);
+
+		await bus.publish('ev', () => 7, { timeout: 10 });
+
+		expect(next).toHaveBeenCalledWith(7);
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), { event: 'ev', payload: 7, phase: 'timeout' });
+	});
+	it('still reports listeners that reject after timing out', async () => {
+		const onError = vi.fn();
+		const bus = new EventBus<TestEvents>({}, { onError });
+		const failure = new Error('late');
+		bus.subscribe('ev', () => new Promise<void>((_resolve, reject) => setTimeout(() => reject(failure), 20)));
+
+		await bus.publish('ev', () => 7, { timeout: 5 });
+		expect(onError).toHaveBeenCalledTimes(1);
+
+		await new Promise((resolve) => setTimeout(resolve, 30));
+		expect(onError).toHaveBeenLastCalledWith(failure, { event: 'ev', payload: 7, phase: 'listener' });
+	});
+	it('emit calls listeners synchronously without awaiting them', async () => {
+		const onError = vi.fn();
+		const bus = new EventBus<TestEvents>({}, { onError });
+		const calls: string[] = [];
+		bus.subscribe('ev', async (payload) => {
+			calls.push(`async:${payload}`);
+			await Promise.resolve();
+			throw new Error('late');
+		});
+		bus.subscribe('ev', (payload) => {
+			calls.push(`sync:${payload}`);
+		});
+		bus.subscribeAll((event) => {
+			calls.push(`any:${event}`);
+		});
+
+		bus.emit('ev', 3);
+		expect(calls).toEqual(['async:3', 'sync:3', 'any:ev']);
+		expect(onError).not.toHaveBeenCalled();
+
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), { event: 'ev', payload: 3, phase: 'listener' });
+	});
+	it('answers requests from the single responder', async () => {
+		const bus = new EventBus<TestEvents, TestRequests>();
+		const off = bus.respond('sum', (numbers) => numbers.reduce((total, n) => total + n, 0));
+		bus.respond('currentUser', async () => ({ id: 7 }));
+
+		await expect(bus.request('sum', [1, 2, 3])).resolves.toBe(6);
+		const user = await bus.request('currentUser', undefined);
+		expectTypeOf(user).toEqualTypeOf<{ id: number } | null>();
+		expect(user).toEqual({ id: 7 });
+
+		off();
+		expect(bus.hasResponder('sum')).toBe(false);
+		// @ts-expect-error wrong params type
+		void bus.request('sum', 'x').catch(() => {});
+	});
+	it('rejects requests without exactly one responder', async () => {
+		const bus = new EventBus<TestEvents, TestRequests>();
+		await expect(bus.request('sum', [])).rejects.toMatchObject({ name: 'EventBusRequestError', code: 'no-responder', request: 'sum' });
+
+		bus.respond('sum', () => 1);
+		bus.respond('sum', () => 2);
+		await expect(bus.request('sum', [])).rejects.toMatchObject({ code: 'multiple-responders' });
+	});
+	it('passes responder errors through', async () => {
+		const bus = new EventBus<TestEvents, TestRequests>();
+		bus.respond('sum', () => {
+			throw new Error('bad input');
+		});
+		await expect(bus.request('sum', [])).rejects.toThrow('bad input');
+	});
+	it('times out and aborts requests', async () => {
+		const bus = new EventBus<TestEvents, TestRequests>();
+		let responderSignal: AbortSignal | undefined;
+		bus.respond('sum', (_numbers, signal) => {
+			responderSignal = signal;
+			return new Promise<number>(() => {});
+		});
+
+		const timedOut = bus.request('sum', [], { timeout: 10 });
+		await expect(timedOut).rejects.toBeInstanceOf(EventBusRequestError);
+		await expect(timedOut).rejects.toMatchObject({ code: 'timeout' });
+		expect(responderSignal?.aborted).toBe(true);
+
+		const controller = new AbortController();
+		const aborted = bus.request('sum', [], { signal: controller.signal });
+		controller.abort();
+		await expect(aborted).rejects.toMatchObject({ code: 'aborted' });
+		await expect(bus.request('sum', [], { signal: controller.signal })).rejects.toMatchObject({ code: 'aborted' });
+	});
+	it('replays buffered payloads to late subscribers', async () => {
+		const bus = new EventBus<TestEvents>({}, { replay: { ev: 2, error: 1 } });
+		await bus.publish('ev', () => 1);
+		await bus.publish('ev', () => 2);
+		bus.emit('ev', 3);
+		await bus.publish('a', () => null);
+
+		const late = vi.fn();
+		bus.subscribe('ev', late);
+		expect(late.mock.calls).toEqual([[2], [3]]);
+		expect(bus.getReplay('ev')).toEqual([2, 3]);
+		expect(bus.getReplay('a')).toEqual([]);
+
+		const optOut = vi.fn();
+		bus.subscribe('ev', optOut, { replay: false });
+		expect(optOut).not.toHaveBeenCalled();
+
+		const once = vi.fn();
+		bus.once('ev', once);
+		expect(once.mock.calls).toEqual([[2]]);
+
+		bus.setReplay('ev', 0);
+		expect(bus.getReplay('ev')).toEqual([]);
+	});
+	it('replays matching buffers to pattern subscribers', async () => {
+		const bus = new EventBus<NamespacedEvents>({}, { replay: { 'user:login': 1, 'cart.cleared': 1 } });
+		await bus.publish('user:login', () => ({ id: 1 }));
+		await bus.publish('cart.cleared', () => null);
+
+		const listener = vi.fn();
+		bus.subscribePattern('user:*', listener);
+		expect(listener.mock.calls).toEqual([[{ id: 1 }, 'user:login']]);
+	});
+	it('once skips payloads rejected by the filter', async () => {
+		const bus = new EventBus<TestEvents>();
+		const listener = vi.fn();
+		bus.once('ev', listener, { filter: (payload) => payload > 1 });
+
+		await bus.publish('ev', () => 1);
+		await bus.publish('ev', () => 2);
+		await bus.publish('ev', () => 3);
+		expect(listener.mock.calls).toEqual([[2]]);
+	});
+	it('waitFor resolves with the next matching payload', async () => {
+		const bus = new EventBus<TestEvents>();
+		const result = bus.waitFor('ev', { filter: (payload) => payload % 2 === 0 });
+		await bus.publish('ev', () => 1);
+		await bus.publish('ev', () => 4);
+
+		await expect(result).resolves.toBe(4);
+		expect(bus.listenerCount('ev')).toBe(0);
+	});
+	it('waitFor resolves immediately from a replay buffer', async () => {
+		const bus = new EventBus<TestEvents>({}, { replay: { error: 1 } });
+		await bus.publish('error', () => ({ message: 'loaded' }));
+		await expect(bus.waitFor('error', { timeout: 10 })).resolves.toEqual({ message: 'loaded' });
+	});
+	it('waitFor rejects on timeout and abort', async () => {
+		const bus = new EventBus<TestEvents>();
+		await expect(bus.waitFor('ev', { timeout: 5 })).rejects.toMatchObject({ name: 'EventBusWaitError', code: 'timeout', event: 'ev' });
+		expect(bus.listenerCount('ev')).toBe(0);
+
+		const controller = new AbortController();
+		const waiting = bus.waitFor('ev', { signal: controller.signal });
+		controller.abort();
+		await expect(waiting).rejects.toBeInstanceOf(EventBusWaitError);
+		await expect(waiting).rejects.toMatchObject({ code: 'aborted' });
+		expect(bus.listenerCount('ev')).toBe(0);
+	});
+	it('runs middleware in order and lets it transform the payload', async () => {
+		const bus = new EventBus<TestEvents>();
+		const calls: string[] = [];
+		const listener = vi.fn();
+		bus.subscribe('ev', listener);
+		bus.use(async (context, next) => {
+			calls.push(`first:${context.event}:${context.phase}`);
+			context.payload = (context.payload as number) * 10;
+			await next();
+			calls.push('first:after');
+		});
+		bus.use((context, next) => {
+			calls.push(`second:${context.payload}`);
+			return next();
+		});
+
+		await expect(bus.publish('ev', () => 2)).resolves.toBe(20);
+		expect(listener).toHaveBeenCalledWith(20);
+		expect(calls).toEqual(['first:ev:middleware', 'second:20', 'first:after']);
+	});
+	it('cancels dispatch when middleware does not call next', async () => {
+		const bus = new EventBus<TestEvents>();
+		const listener = vi.fn();
+		bus.subscribe('ev', listener);
+		const remove = bus.use((context, next) => {
+			if ((context.payload as number) < 0) return;
+			return next();
+		});
+
+		await bus.publish('ev', () => -1);
+		await bus.publish('ev', () => 1);
+		expect(listener.mock.calls).toEqual([[1]]);
+
+		remove();
+		await bus.publish('ev', () => -1);
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+	it('lets middleware observe listener results and errors', async () => {
+		const onError = vi.fn();
+		const bus = new EventBus<TestEvents>({}, { onError });
+		const failure = new Error('listener failed');
+		bus.subscribe('ev', () => {
+			throw failure;
+		});
+		bus.subscribeAll(() => {});
+		const observed = vi.fn();
+		bus.use(async (_context, next) => {
+			observed(await next());
+		});
+
+		await bus.publish('ev', () => 1);
+		expect(observed).toHaveBeenCalledWith({ listeners: 2, errors: [{ error: failure, phase: 'listener' }] });
+		expect(onError).toHaveBeenCalledWith(failure, { event: 'ev', payload: 1, phase: 'listener' });
+	});
+	it('reports middleware errors with the middleware phase', async () => {
+		const onError = vi.fn();
+		const bus = new EventBus<TestEvents>({}, { onError });
+		const listener = vi.fn();
+		bus.subscribe('ev', listener);
+		bus.use(() => {
+			throw new Error('invalid payload');
+		});
+
+		await bus.publish('ev', () => 1);
+		expect(listener).not.toHaveBeenCalled();
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), { event: 'ev', payload: 1, phase: 'middleware' });
+	});
+	it('removes listeners when their signal aborts', async () => {
+		const bus = new EventBus<NamespacedEvents>();
+		const controller = new AbortController();
+		const exact = vi.fn();
+		const pattern = vi.fn();
+		const any = vi.fn();
+		const once = vi.fn();
+		bus.subscribe('user:login', exact, { signal: controller.signal });
+		bus.subscribePattern('user:*', pattern, { signal: controller.signal });
+		bus.subscribeAll(any, { signal: controller.signal });
+		bus.once('user:login', once, { signal: controller.signal });
+
+		controller.abort();
+		await bus.publish('user:login', () => ({ id: 1 }));
+
+		for (const listener of [exact, pattern, any, once]) {
+			expect(listener).not.toHaveBeenCalled();
+		}
+		expect(bus.hasListeners('user:login')).toBe(false);
+	});
+	it('ignores subscriptions with an aborted signal', async () => {
+		const bus = new EventBus<TestEvents>({}, { replay: { ev: 1 } });
+		const listener = vi.fn();
+		await bus.publish('ev', () => 1);
+
+		bus.subscribe('ev', listener, { signal: AbortSignal.abort() });
+
+		expect(listener).not.toHaveBeenCalled();
+		expect(bus.hasListeners('ev')).toBe(false);
+	});
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus } from '../src/eventBus/EventBus.js';
+
+type TestEvents = {
+	'user:login': { id: number };
+	'user:logout': void;
+	ping: number;
+};
+
+describe('EventBusInspector', () => {
+	it('records publishes with payload, listener timing and the caller stack', async () => {
+		const bus = new EventBus<TestEvents>({}, { inspect: true });
+		bus.subscribe('user:login', function onLogin() {});
+		bus.subscribe('user:login', async function slowLogin() {
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		});
+
+		await bus.publish('user:login', () => ({ id: 1 }));
+
+		const [trace] = bus.inspect().history();
+		expect(trace).toMatchObject({ event: 'user:login', source: 'publish', payload: { id: 1 }, cancelled: false, errors: [] });
+		expect(trace!.listeners.map((listener) => listener.name)).toEqual(['onLogin', 'slowLogin']);
+		expect(trace!.listeners[1]!.duration).toBeGreaterThanOrEqual(4);
+		expect(trace!.duration).toBeGreaterThanOrEqual(trace!.listeners[1]!.duration!);
+		expect(trace!.stack).toContain('eventBusInspector.test.ts');
+	});
+	it('records errors, timeouts and cancelled publishes', async () => {
+		const bus = new EventBus<TestEvents>({}, { onError: vi.fn(), timeout: 5 });
+		const inspector = bus.inspect();
+		const failure = new Error('boom');
+		bus.subscribe('ping', function failing() {
+			throw failure;
+		});
+		bus.subscribe('ping', () => new Promise<void>((resolve) => setTimeout(resolve, 20)));
+
+		await bus.publish('ping', () => 1);
+		const remove = bus.use(() => {});
+		await bus.publish('ping', () => 2);
+		remove();
+
+		const [first, second] = inspector.history('ping');
+		expect(first!.listeners).toEqual([
+			expect.objectContaining({ name: 'failing', error: failure }),
+			expect.objectContaining({ name: 'anonymous', timedOut: true })
+		]);
+		expect(first!.errors.map((error) => error.phase)).toEqual(['listener', 'timeout']);
+		expect(second).toMatchObject({ payload: 2, cancelled: true, listeners: [] });
+	});
+	it('keeps only the latest dispatches', () => {
+		const bus = new EventBus<TestEvents>({}, { inspect: { historySize: 2, captureStack: false } });
+		bus.emit('ping', 1);
+		bus.emit('ping', 2);
+		bus.emit('ping', 3);
+
+		const history = bus.inspect().history();
+		expect(history.map((trace) => trace.payload)).toEqual([2, 3]);
+		expect(history[0]!.stack).toBeUndefined();
+	});
+	it('lists registered listeners per event in dispatch order', () => {
+		const bus = new EventBus<TestEvents>();
+		const inspector = bus.inspect();
+		bus.subscribe('user:login', function onLogin() {});
+		bus.subscribePattern('user:*', function onUser() {}, { priority: 1 });
+		bus.subscribeAll(function audit() {});
+
+		expect(inspector.listeners('user:login')).toEqual([
+			{ channel: 'user:*', kind: 'pattern', name: 'onUser', priority: 1 },
+			{ channel: 'user:login', kind: 'event', name: 'onLogin', priority: 0 },
+			{ channel: '*', kind: 'any', name: 'audit', priority: 0 }
+		]);
+		expect(inspector.listeners().map((listener) => listener.channel)).toEqual(['user:login', 'user:*', '*']);
+	});
+	it('exports the history as JSON', () => {
+		const bus = new EventBus<TestEvents>({}, { onError: vi.fn(), inspect: true });
+		bus.subscribe('user:login', () => {
+			throw new TypeError('bad user');
+		});
+		const payload: { id: number; self?: unknown } = { id: 1 };
+		payload.self = payload;
+		bus.emit('user:login', payload);
+
+		const [trace] = JSON.parse(bus.inspect().export());
+		expect(trace.payload).toEqual({ id: 1, self: '[Circular]' });
+		expect(trace.errors[0]).toMatchObject({ phase: 'listener', error: { name: 'TypeError', message: 'bad user' } });
+		expect(typeof trace.stack).toBe('string');
+
+		bus.inspect().clear();
+		expect(bus.inspect().export()).toBe('[]');
+	});
+	it('exports objects shared between traces in full', async () => {
+		const bus = new EventBus<TestEvents>({}, { inspect: true });
+		const payload = { id: 7 };
+
+		bus.emit('user:login', payload);
+		await bus.publish('user:login', () => payload);
+
+		const traces = JSON.parse(bus.inspect().export());
+		expect(traces.map((trace: { payload: unknown }) => trace.payload)).toEqual([{ id: 7 }, { id: 7 }]);
+	});
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus } from '../src/eventBus/EventBus.js';
+import { StorageOutboxAdapter, type EventBusOutboxEntry } from '../src/eventBus/EventBusOutbox.js';
+import { MemoryStorageDriver } from '../src/localStorageUtil/StorageDriver.js';
+
+type TestEvents = {
+	'draft:saved': { id: number };
+	'analytics:track': string;
+	ping: number;
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const createAdapter = () => new StorageOutboxAdapter({ driver: new MemoryStorageDriver(), key: 'outbox' });
+
+describe('EventBus outbox', () => {
+	it('removes events once every listener succeeded', async () => {
+		const adapter = createAdapter();
+		const bus = new EventBus<TestEvents>({}, { outbox: { adapter, events: ['draft:saved'] } });
+		bus.subscribe('draft:saved', () => {});
+
+		await bus.publish('draft:saved', () => ({ id: 1 }));
+		await flush();
+
+		expect(adapter.load()).toEqual([]);
+	});
+	it('keeps failed and unhandled events queued and replays them on the next start', async () => {
+		const adapter = createAdapter();
+		const onError = vi.fn();
+		const first = new EventBus<TestEvents>({}, { onError, outbox: { adapter, events: ['draft:saved', 'analytics:track'] } });
+		first.subscribe('draft:saved', () => {
+			throw new Error('offline');
+		});
+
+		await first.publish('draft:saved', () => ({ id: 1 }));
+		first.emit('analytics:track', 'click');
+		first.emit('ping', 1);
+		await flush();
+
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ event: 'draft:saved', phase: 'listener' }));
+		expect(adapter.load()).toEqual([
+			expect.objectContaining({ event: 'draft:saved', payload: { id: 1 }, retries: 1 }),
+			expect.objectContaining({ event: 'analytics:track', payload: 'click', retries: 0 })
+		]);
+
+		const second = new EventBus<TestEvents>({}, { outbox: { adapter, events: ['draft:saved', 'analytics:track'] } });
+		const drafts = vi.fn();
+		const tracked = vi.fn();
+		second.subscribe('draft:saved', drafts);
+		second.subscribe('analytics:track', tracked);
+		await second.flushOutbox();
+		await flush();
+
+		expect(drafts).toHaveBeenCalledWith({ id: 1 });
+		expect(tracked).toHaveBeenCalledWith('click');
+		expect(adapter.load()).toEqual([]);
+	});
+	it('counts async failures of emitted events', async () => {
+		const adapter = createAdapter();
+		const bus = new EventBus<TestEvents>({}, { onError: vi.fn(), outbox: { adapter, events: ['analytics:track'] } });
+		bus.subscribe('analytics:track', async () => {
+			throw new Error('rejected');
+		});
+
+		bus.emit('analytics:track', 'view');
+		await flush();
+		await bus.flushOutbox();
+		await flush();
+
+		expect(adapter.load()).toEqual([expect.objectContaining({ payload: 'view', retries: 2 })]);
+	});
+	it('drops events after maxRetries failed dispatches', async () => {
+		const adapter = createAdapter();
+		const onError = vi.fn();
+		const bus = new EventBus<TestEvents>({}, { onError, outbox: { adapter, events: ['draft:saved'], maxRetries: 1 } });
+		bus.subscribe('draft:saved', () => {
+			throw new Error('offline');
+		});
+
+		await bus.publish('draft:saved', () => ({ id: 1 }));
+		await bus.flushOutbox();
+		await flush();
+
+		expect(adapter.load()).toEqual([]);
+		expect(onError).toHaveBeenLastCalledWith(expect.any(Error), { event: 'draft:saved', payload: { id: 1 }, phase: 'outbox' });
+	});
+	it('does not replay entries another bus is still dispatching', async () => {
+		const adapter = createAdapter();
+		const events: (keyof TestEvents)[] = ['draft:saved'];
+		const first = new EventBus<TestEvents>({}, { outbox: { adapter, events } });
+		let finish = () => {};
+		first.subscribe('draft:saved', () => new Promise<void>((resolve) => (finish = resolve)));
+
+		const publishing = first.publish('draft:saved', () => ({ id: 1 }));
+		await flush();
+		const second = new EventBus<TestEvents>({}, { outbox: { adapter, events } });
+		const replayed = vi.fn();
+		second.subscribe('draft:saved', replayed);
+		await second.flushOutbox();
+
+		expect(replayed).not.toHaveBeenCalled();
+		finish();
+		await publishing;
+		await flush();
+		expect(adapter.load()).toEqual([]);
+	});
+	it('replays entries whose lease expired', async () => {
+		const adapter = createAdapter();
+		adapter.save({
+			id: 'stale',
+			event: 'draft:saved',
+			payload: { id: 1 },
+			retries: 0,
+			createdAt: Date.now(),
+			owner: 'gone',
+			leaseUntil: Date.now() - 1
+		});
+		const bus = new EventBus<TestEvents>({}, { outbox: { adapter, events: ['draft:saved'] } });
+		const replayed = vi.fn();
+		bus.subscribe('draft:saved', replayed);
+
+		await bus.flushOutbox();
+		expect(replayed).toHaveBeenCalledWith({ id: 1 });
+	});
+	it('caps the queue by age and size', async () => {
+		const adapter = createAdapter();
+		const onError = vi.fn();
+		adapter.save({ id: 'old', event: 'analytics:track', payload: 'old', retries: 0, createdAt: Date.now() - 60_000 });
+		const bus = new EventBus<TestEvents>({}, { onError, outbox: { adapter, events: ['analytics:track'], maxAge: 30_000, maxEntries: 2 } });
+		await bus.flushOutbox();
+
+		['a', 'b', 'c'].forEach((payload) => bus.emit('analytics:track', payload));
+		await flush();
+
+		expect(adapter.load().map((entry) => entry.payload)).toEqual(['b', 'c']);
+		expect(onError.mock.calls.map(([error]) => (error as Error).message)).toEqual([
+			'Dropped "analytics:track" from the outbox because it is older than 30000ms.',
+			'Dropped "analytics:track" from the outbox because the queue exceeds 2 entries.'
+		]);
+	});
+	it('leaves entries of other buses sharing the adapter alone', async () => {
+		const adapter = createAdapter();
+		const foreign: EventBusOutboxEntry = { id: 'foreign', event: 'other:event', payload: 1, retries: 0, createdAt: 0 };
+		adapter.save(foreign);
+		const listener = vi.fn();
+		const bus = new EventBus<TestEvents>({ ping: [listener] }, { outbox: { adapter, events: ['ping'], maxAge: 1000, maxEntries: 0 } });
+
+		await bus.flushOutbox();
+		bus.emit('ping', 1);
+		await flush();
+
+		expect(adapter.load()).toEqual([foreign]);
+	});
+	it('reports outbox load failures through onError', async () => {
+		const adapter = createAdapter();
+		const failure = new Error('quota');
+		vi.spyOn(adapter, 'load').mockImplementation(() => {
+			throw failure;
+		});
+		const onError = vi.fn();
+		const bus = new EventBus<TestEvents>({}, { onError, outbox: { adapter, events: ['ping'] } });
+
+		await bus.flushOutbox();
+
+		expect(onError).toHaveBeenCalledWith(failure, { event: '*', payload: undefined, phase: 'outbox' });
+	});
+	it('updates shared storage under a Web Lock', async () => {
+		const request = vi.fn((_name: string, run: () => unknown) => Promise.resolve(run()));
+		Object.defineProperty(navigator, 'locks', { configurable: true, value: { request } });
+		const adapter = new StorageOutboxAdapter({ driver: new MemoryStorageDriver(), key: 'shared' });
+
+		await adapter.save({ id: '1', event: 'ping', payload: 1, retries: 0, createdAt: 1 });
+		expect(await adapter.claim('bus', Date.now() + 1000, ['ping'])).toEqual([expect.objectContaining({ id: '1', owner: 'bus' })]);
+		await adapter.remove('1');
+
+		expect(request.mock.calls.map(([name]) => name)).toEqual(['eventBus:outbox:shared', 'eventBus:outbox:shared', 'eventBus:outbox:shared']);
+		expect(adapter.load()).toEqual([]);
+		// Remove the own property so the happy-dom getter (no Web Locks) applies again.
+		delete (navigator as { locks?: unknown }).locks;
+	});
+	it('stores the queue in localStorage by default', () => {
+		const adapter = new StorageOutboxAdapter({ key: 'outbox-test' });
+		const entry: EventBusOutboxEntry = { id: '1', event: 'ping', payload: 1, retries: 0, createdAt: 1 };
+
+		adapter.save(entry);
+		expect(JSON.parse(localStorage.getItem('outbox-test')!)).toEqual([entry]);
+		adapter.remove('1');
+		expect(localStorage.getItem('outbox-test')).toBeNull();
+	});
+});
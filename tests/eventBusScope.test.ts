@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventBus } from '../src/eventBus/EventBus.js';
+
+type TestEvents = {
+	'user:login': { id: number };
+	'user:logout': void;
+	ping: number;
+};
+
+describe('EventBusScope', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('drops every subscription on dispose', async () => {
+		const bus = new EventBus<TestEvents>();
+		const scope = bus.scope('menu');
+		const listeners = [vi.fn(), vi.fn(), vi.fn(), vi.fn()];
+		scope.subscribe('ping', listeners[0]!);
+		scope.once('ping', listeners[1]!);
+		scope.subscribePattern('user:*', listeners[2]!);
+		scope.subscribeAll(listeners[3]!);
+
+		scope.dispose();
+		await bus.publish('ping', () => 1);
+		await bus.publish('user:login', () => ({ id: 1 }));
+
+		for (const listener of listeners) {
+			expect(listener).not.toHaveBeenCalled();
+		}
+		expect(scope.disposed).toBe(true);
+		expect(scope.signal.aborted).toBe(true);
+	});
+	it('keeps individual unsubscribe functions working', async () => {
+		const bus = new EventBus<TestEvents>();
+		const scope = bus.scope();
+		const kept = vi.fn();
+		const removed = vi.fn();
+		scope.subscribe('ping', kept);
+		scope.subscribe('ping', removed)();
+
+		await bus.publish('ping', () => 1);
+		expect(kept).toHaveBeenCalledTimes(1);
+		expect(removed).not.toHaveBeenCalled();
+	});
+	it('ignores subscriptions after dispose', async () => {
+		const bus = new EventBus<TestEvents>();
+		const scope = bus.scope();
+		const listener = vi.fn();
+		scope.dispose();
+
+		scope.subscribe('ping', listener);
+		await bus.publish('ping', () => 1);
+		expect(listener).not.toHaveBeenCalled();
+		expect(bus.hasListeners('ping')).toBe(false);
+	});
+	it('warns when a scope is garbage-collected without dispose', () => {
+		const registered: { heldValue: string; token: object }[] = [];
+		let cleanup: (heldValue: string) => void = () => {};
+		vi.stubGlobal(
+			'FinalizationRegistry',
+			class {
+				constructor(callback: (heldValue: string) => void) {
+					cleanup = callback;
+				}
+				register(_target: object, heldValue: string, token: object) {
+					registered.push({ heldValue, token });
+				}
+				unregister(token: object) {
+					const index = registered.findIndex((entry) => entry.token === token);
+					if (index !== -1) registered.splice(index, 1);
+				}
+			}
+		);
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const bus = new EventBus<TestEvents>();
+
+		bus.scope('disposed').dispose();
+		bus.scope('leaked');
+		expect(registered.map((entry) => entry.heldValue)).toEqual(['leaked']);
+
+		cleanup('leaked');
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Scope "leaked" was garbage-collected without dispose()'));
+	});
+});
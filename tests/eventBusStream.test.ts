@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus } from '../src/eventBus/EventBus.js';
+import { EventBusStreamOverflowError } from '../src/eventBus/EventBusStream.js';
+
+type TestEvents = {
+	progress: number;
+	done: void;
+};
+
+describe('EventBus streams', () => {
+	it('iterates payloads with for await and unsubscribes on break', async () => {
+		const bus = new EventBus<TestEvents>();
+		const received: number[] = [];
+		const consume = (async () => {
+			for await (const payload of bus.stream('progress')) {
+				received.push(payload);
+				if (payload === 100) break;
+			}
+		})();
+
+		bus.emit('progress', 10);
+		bus.emit('progress', 50);
+		bus.emit('progress', 100);
+		await consume;
+
+		expect(received).toEqual([10, 50, 100]);
+		expect(bus.hasListeners('progress')).toBe(false);
+	});
+	it('ends the iteration when the signal aborts', async () => {
+		const bus = new EventBus<TestEvents>();
+		const controller = new AbortController();
+		const stream = bus.stream('progress', { signal: controller.signal });
+
+		bus.emit('progress', 1);
+		const pending = [stream.next(), stream.next()];
+		controller.abort();
+
+		expect(await Promise.all(pending)).toEqual([
+			{ value: 1, done: false },
+			{ value: undefined, done: true }
+		]);
+		expect(bus.hasListeners('progress')).toBe(false);
+	});
+	it('applies the overflow strategy when the buffer is full', async () => {
+		const bus = new EventBus<TestEvents>();
+		const oldest = bus.stream('progress', { bufferSize: 2 });
+		const newest = bus.stream('progress', { bufferSize: 2, overflow: 'drop-newest' });
+		const failing = bus.stream('progress', { bufferSize: 2, overflow: 'error' });
+
+		[1, 2, 3].forEach((value) => bus.emit('progress', value));
+
+		expect([(await oldest.next()).value, (await oldest.next()).value]).toEqual([2, 3]);
+		expect([(await newest.next()).value, (await newest.next()).value]).toEqual([1, 2]);
+		expect([(await failing.next()).value, (await failing.next()).value]).toEqual([1, 2]);
+		await expect(failing.next()).rejects.toBeInstanceOf(EventBusStreamOverflowError);
+		expect(bus.listenerCount('progress')).toBe(2);
+	});
+	it('only delivers payloads to a waiting consumer with bufferSize 0', async () => {
+		const bus = new EventBus<TestEvents>();
+		const stream = bus.stream('progress', { bufferSize: 0 });
+
+		bus.emit('progress', 1);
+		const next = stream.next();
+		bus.emit('progress', 2);
+		bus.emit('progress', 3);
+
+		expect(await next).toEqual({ value: 2, done: false });
+		const following = stream.next();
+		bus.emit('progress', 4);
+		expect(await following).toEqual({ value: 4, done: false });
+	});
+	it('exposes events as a Symbol.observable-compatible source', () => {
+		const bus = new EventBus<TestEvents>();
+		const observable = bus.observable('progress');
+		const key = (Symbol as { observable?: symbol }).observable ?? '@@observable';
+		const next = vi.fn();
+
+		const interop = (observable as unknown as Record<string | symbol, () => typeof observable>)[key]!();
+		const subscription = interop.subscribe({ next });
+		bus.emit('progress', 5);
+		subscription.unsubscribe();
+		bus.emit('progress', 6);
+
+		expect(next.mock.calls).toEqual([[5]]);
+		expect(subscription.closed).toBe(true);
+		expect(bus.hasListeners('progress')).toBe(false);
+	});
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus } from '../src/eventBus/EventBus.js';
+import {
+	BroadcastChannelTransport,
+	MessagePortTransport,
+	WindowMessageTransport,
+	type EventBusTransport,
+	type EventBusTransportHandler,
+	type EventBusTransportMessage
+} from '../src/eventBus/EventBusTransport.js';
+
+type TestEvents = {
+	ping: number;
+	fn: () => void;
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+/** Synchronous in-memory link between two transports. */
+const createLink = (): [EventBusTransport, EventBusTransport] => {
+	const handlers: [Set<EventBusTransportHandler>, Set<EventBusTransportHandler>] = [new Set(), new Set()];
+	const side = (own: number, other: number): EventBusTransport => ({
+		send: (message: EventBusTransportMessage) => {
+			const copy = structuredClone(message);
+			handlers[other]!.forEach((handler) => handler(copy));
+		},
+		subscribe: (handler) => {
+			handlers[own]!.add(handler);
+			return () => handlers[own]!.delete(handler);
+		}
+	});
+	return [side(0, 1), side(1, 0)];
+};
+
+describe('EventBus transports', () => {
+	it('forwards publishes to connected buses', async () => {
+		const [left, right] = createLink();
+		const a = new EventBus<TestEvents>();
+		const b = new EventBus<TestEvents>();
+		a.connect(left);
+		b.connect(right);
+		const onA = vi.fn();
+		const onB = vi.fn();
+		a.subscribe('ping', onA);
+		b.subscribe('ping', onB);
+
+		await a.publish('ping', () => 1);
+		b.emit('ping', 2);
+
+		expect(onA.mock.calls).toEqual([[1], [2]]);
+		expect(onB.mock.calls).toEqual([[1], [2]]);
+	});
+	it('delivers each publish once in a cycle of buses', async () => {
+		const [ab, ba] = createLink();
+		const [bc, cb] = createLink();
+		const [ca, ac] = createLink();
+		const a = new EventBus<TestEvents>();
+		const b = new EventBus<TestEvents>();
+		const c = new EventBus<TestEvents>();
+		a.connect(ab);
+		a.connect(ac);
+		b.connect(ba);
+		b.connect(bc);
+		c.connect(cb);
+		c.connect(ca);
+		const listeners = [vi.fn(), vi.fn(), vi.fn()];
+		[a, b, c].forEach((bus, index) => bus.subscribe('ping', listeners[index]!));
+
+		await a.publish('ping', () => 5);
+
+		for (const listener of listeners) {
+			expect(listener).toHaveBeenCalledTimes(1);
+		}
+	});
+	it('reports payloads that cannot be cloned', () => {
+		const onError = vi.fn();
+		const [left] = createLink();
+		const bus = new EventBus<TestEvents>({}, { onError });
+		const local = vi.fn();
+		bus.connect(left);
+		bus.subscribe('fn', local);
+
+		bus.emit('fn', () => {});
+
+		expect(local).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ event: 'fn', phase: 'transport' }));
+	});
+	it('stops forwarding after disconnect', async () => {
+		const [left, right] = createLink();
+		const a = new EventBus<TestEvents>();
+		const b = new EventBus<TestEvents>();
+		const disconnect = a.connect(left);
+		b.connect(right);
+		const onB = vi.fn();
+		b.subscribe('ping', onB);
+
+		disconnect();
+		await a.publish('ping', () => 1);
+		expect(onB).not.toHaveBeenCalled();
+		expect(a.disconnect(left)).toBe(false);
+	});
+	it('connects buses over a MessageChannel', async () => {
+		const channel = new MessageChannel();
+		const a = new EventBus<TestEvents>();
+		const b = new EventBus<TestEvents>();
+		const onB = vi.fn();
+		a.connect(new MessagePortTransport(channel.port1));
+		const disconnect = b.connect(new MessagePortTransport(channel.port2));
+		b.subscribe('ping', onB);
+
+		await a.publish('ping', () => 3);
+		await flush();
+		expect(onB).toHaveBeenCalledWith(3);
+
+		disconnect();
+		channel.port1.close();
+	});
+	it('connects buses over a BroadcastChannel', async () => {
+		const transportA = new BroadcastChannelTransport('event-bus-test');
+		const transportB = new BroadcastChannelTransport('event-bus-test');
+		const a = new EventBus<TestEvents>();
+		const b = new EventBus<TestEvents>();
+		const onA = vi.fn();
+		const onB = vi.fn();
+		a.connect(transportA);
+		b.connect(transportB);
+		a.subscribe('ping', onA);
+		b.subscribe('ping', onB);
+
+		await a.publish('ping', () => 4);
+		await flush();
+		expect(onA).toHaveBeenCalledTimes(1);
+		expect(onB).toHaveBeenCalledWith(4);
+
+		a.disconnect(transportA);
+		b.disconnect(transportB);
+	});
+	it('accepts window messages only from allowed origins', () => {
+		const receiver = new EventTarget() as unknown as Window;
+		const target = { postMessage: vi.fn() } as unknown as Window;
+		const transport = new WindowMessageTransport({ target, targetOrigin: 'https://app.test', allowedOrigins: ['https://app.test'], receiver });
+		const bus = new EventBus<TestEvents>();
+		const onPing = vi.fn();
+		bus.connect(transport);
+		bus.subscribe('ping', onPing);
+
+		const message = (id: string): EventBusTransportMessage => ({ __eventBus: 1, source: 'remote', id, event: 'ping', payload: 9 });
+		receiver.dispatchEvent(new MessageEvent('message', { data: message('1'), origin: 'https://evil.test' }));
+		receiver.dispatchEvent(new MessageEvent('message', { data: message('2'), origin: 'https://app.test' }));
+		receiver.dispatchEvent(new MessageEvent('message', { data: message('2'), origin: 'https://app.test' }));
+		expect(onPing).toHaveBeenCalledTimes(1);
+
+		bus.emit('ping', 1);
+		expect(target.postMessage).toHaveBeenCalledWith(expect.objectContaining({ event: 'ping', payload: 1 }), 'https://app.test');
+		expect(() => new WindowMessageTransport({ target, targetOrigin: '*', allowedOrigins: [] })).toThrow();
+	});
+});
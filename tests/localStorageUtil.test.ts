@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { LocalStorageUtil } from '../src/localStorageUtil/LocalStorageUtil.js';
+import { MemoryStorageDriver, StorageDrivers, WebStorageDriver } from '../src/localStorageUtil/StorageDriver.js';
+import { ValueCodecs } from '../src/valueCodec/ValueCodec.js';
 
 describe('LocalStorageUtil', () => {
 	beforeEach(() => {
@@ -14,6 +16,11 @@ describe('LocalStorageUtil', () => {
 		LocalStorageUtil.set('user', { name: 'Bob' });
 		expect(LocalStorageUtil.get<{ name: string }>('user')).toEqual({ name: 'Bob' });
 	});
+	it('stores values that look like an internal entry unchanged', () => {
+		LocalStorageUtil.set('x', { __lsu: 1, value: 'hello' });
+		expect(LocalStorageUtil.get('x')).toEqual({ __lsu: 1, value: 'hello' });
+		expect(LocalStorageUtil.getAll()).toEqual({ x: { __lsu: 1, value: 'hello' } });
+	});
 	it('has returns true when key exists', () => {
 		LocalStorageUtil.set('k', 'v');
 		expect(LocalStorageUtil.has('k')).toBe(true);
@@ -43,4 +50,246 @@ describe('LocalStorageUtil', () => {
 		LocalStorageUtil.clear();
 		expect(LocalStorageUtil.get('a')).toBeNull();
 	});
+	it('uses per-call and default codecs', () => {
+		LocalStorageUtil.set('code', '123', { codec: ValueCodecs.json });
+		expect(LocalStorageUtil.get('code', { codec: ValueCodecs.json })).toBe('123');
+
+		LocalStorageUtil.setCodec(ValueCodecs.typedJson);
+		LocalStorageUtil.set('tags', new Set([1, 2]));
+		expect(LocalStorageUtil.get<Set<number>>('tags')).toEqual(new Set([1, 2]));
+		LocalStorageUtil.setCodec(ValueCodecs.auto);
+	});
+	it('expires items written with ttl', () => {
+		vi.useFakeTimers();
+		try {
+			LocalStorageUtil.set('session', { id: 1 }, { ttl: 1000 });
+			expect(LocalStorageUtil.get('session')).toEqual({ id: 1 });
+			expect(LocalStorageUtil.has('session')).toBe(true);
+
+			vi.advanceTimersByTime(1001);
+			expect(LocalStorageUtil.has('session')).toBe(false);
+			expect(LocalStorageUtil.getAll()).toEqual({});
+			expect(window.localStorage.getItem('session')).toBeNull();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+	it('supports absolute expiry', () => {
+		LocalStorageUtil.set('past', 'v', { expiresAt: new Date(Date.now() - 1) });
+		LocalStorageUtil.set('future', 'v', { expiresAt: Date.now() + 60_000 });
+		expect(LocalStorageUtil.get('past')).toBeNull();
+		expect(LocalStorageUtil.get('future')).toBe('v');
+	});
+	it('purgeExpired removes only expired util entries', () => {
+		LocalStorageUtil.set('old', 'v', { ttl: -1 });
+		LocalStorageUtil.set('fresh', 'v', { ttl: 60_000 });
+		window.localStorage.setItem('foreign', '{"expiresAt":0}');
+
+		expect(LocalStorageUtil.purgeExpired()).toBe(1);
+		expect(LocalStorageUtil.keys().sort()).toEqual(['foreign', 'fresh']);
+	});
+	it('namespaced instances are isolated', () => {
+		const shell = LocalStorageUtil.create({ prefix: 'shell' });
+		const cart = LocalStorageUtil.create({ prefix: 'cart' });
+		window.localStorage.setItem('foreign', 'x');
+
+		shell.set('user', { id: 1 });
+		cart.set('items', [1, 2]);
+
+		expect(window.localStorage.getItem('shell:user')).toBe('{"id":1}');
+		expect(shell.keys()).toEqual(['user']);
+		expect(shell.has('items')).toBe(false);
+		expect(cart.getAll()).toEqual({ items: [1, 2] });
+
+		shell.clear();
+		expect(shell.keys()).toEqual([]);
+		expect(cart.get('items')).toEqual([1, 2]);
+		expect(window.localStorage.getItem('foreign')).toBe('x');
+	});
+	it('keeps nested namespaces apart', () => {
+		const app = LocalStorageUtil.create({ prefix: 'app' });
+		const sub = LocalStorageUtil.create({ prefix: 'app:sub' });
+
+		app.set('sub:x', 1);
+		sub.set('x', 2);
+
+		expect(window.localStorage.getItem('app\\:sub:x')).toBe('2');
+		expect(app.keys()).toEqual(['sub:x']);
+		expect(sub.getAll()).toEqual({ x: 2 });
+
+		app.clear();
+		expect(app.keys()).toEqual([]);
+		expect(sub.get('x')).toBe(2);
+	});
+	it('works against sessionStorage and in-memory drivers', () => {
+		const session = LocalStorageUtil.create({ driver: StorageDrivers.session });
+		session.set('step', 2);
+		expect(window.sessionStorage.getItem('step')).toBe('2');
+		expect(session.get('step')).toBe(2);
+		session.clear();
+
+		const memory = LocalStorageUtil.create({ driver: new MemoryStorageDriver(), prefix: 'test' });
+		memory.set('a', { x: 1 });
+		expect(memory.keys()).toEqual(['a']);
+		expect(memory.getAll()).toEqual({ a: { x: 1 } });
+		expect(window.localStorage.length).toBe(0);
+	});
+	it('falls back to memory when the driver is unavailable', () => {
+		const broken = new WebStorageDriver('localStorage');
+		vi.spyOn(broken, 'isAvailable').mockReturnValue(false);
+		const fallback = new MemoryStorageDriver();
+
+		const storage = LocalStorageUtil.create({ driver: broken, fallback });
+		storage.set('k', 'v');
+		expect(storage.isSupported()).toBe(false);
+		expect(storage.get('k')).toBe('v');
+		expect(fallback.getItem('k')).toBe('v');
+
+		const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const noFallback = LocalStorageUtil.create({ driver: broken, fallback: null });
+		expect(noFallback.get('k')).toBeNull();
+		expect(warnSpy).toHaveBeenCalledWith('localStorage is not supported in this environment.');
+		warnSpy.mockRestore();
+	});
+	it('subscribe delivers decoded values for same-tab writes', () => {
+		const listener = vi.fn();
+		const anyListener = vi.fn();
+		const off = LocalStorageUtil.subscribe<{ dark: boolean }>('theme', listener);
+		const offAll = LocalStorageUtil.subscribeAll(anyListener);
+
+		LocalStorageUtil.set('theme', { dark: true });
+		LocalStorageUtil.set('other', 1);
+		LocalStorageUtil.delete('theme');
+
+		expect(listener).toHaveBeenNthCalledWith(1, { dark: true }, null);
+		expect(listener).toHaveBeenNthCalledWith(2, null, { dark: true });
+		expect(anyListener).toHaveBeenCalledWith('other', 1, null);
+
+		off();
+		offAll();
+		LocalStorageUtil.set('theme', 'x');
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+	it('subscribe receives storage events from other tabs', () => {
+		const listener = vi.fn();
+		const off = LocalStorageUtil.subscribe('token', listener);
+
+		window.dispatchEvent(new StorageEvent('storage', { key: 'token', oldValue: null, newValue: '{"id":2}', storageArea: window.localStorage }));
+		window.dispatchEvent(new StorageEvent('storage', { key: 'token', oldValue: null, newValue: 'x', storageArea: window.sessionStorage }));
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith({ id: 2 }, null);
+		off();
+	});
+	it('ignores availability probes from other tabs', () => {
+		const anyListener = vi.fn();
+		const off = LocalStorageUtil.subscribeAll(anyListener);
+
+		window.dispatchEvent(new StorageEvent('storage', { key: '__storage_test__', oldValue: null, newValue: '', storageArea: window.localStorage }));
+		window.dispatchEvent(new StorageEvent('storage', { key: '__storage_test__', oldValue: '', newValue: null, storageArea: window.localStorage }));
+
+		expect(anyListener).not.toHaveBeenCalled();
+		off();
+	});
+	it('namespaced subscriptions only see their keys', () => {
+		const driver = new MemoryStorageDriver();
+		const shell = LocalStorageUtil.create({ driver, prefix: 'shell' });
+		const cart = LocalStorageUtil.create({ driver, prefix: 'cart' });
+		const anyListener = vi.fn();
+		shell.subscribeAll(anyListener);
+
+		cart.set('items', [1]);
+		shell.set('user', 'alice', { ttl: 1000 });
+
+		expect(anyListener).toHaveBeenCalledTimes(1);
+		expect(anyListener).toHaveBeenCalledWith('user', 'alice', null);
+	});
+	it('get validates values and reports mismatches', () => {
+		const onError = vi.fn();
+		const storage = LocalStorageUtil.create({ driver: new MemoryStorageDriver(), onError });
+		const isSettings = (value: unknown): value is { volume: number } => typeof (value as { volume?: unknown })?.volume === 'number';
+
+		storage.set('settings', { volume: 'loud' });
+		expect(storage.get('settings', isSettings)).toBeNull();
+		expect(storage.get('settings', isSettings, { fallback: { volume: 5 } })).toEqual({ volume: 5 });
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), { key: 'settings', value: { volume: 'loud' }, phase: 'validation' });
+
+		storage.set('settings', { volume: 3 });
+		expect(storage.get('settings', isSettings)).toEqual({ volume: 3 });
+		expect(storage.get('missing', isSettings, { fallback: { volume: 1 } })).toEqual({ volume: 1 });
+	});
+	it('migrates versioned entries and writes them back', () => {
+		type SettingsV3 = { theme: 'dark' | 'light'; fontSize: number };
+		const driver = new MemoryStorageDriver();
+		const storage = LocalStorageUtil.create({ driver });
+		storage.registerMigrations('settings', {
+			version: 3,
+			migrations: {
+				2: (v1: { dark: boolean }) => ({ theme: v1.dark ? 'dark' : 'light' }),
+				3: (v2: { theme: string }) => ({ ...v2, fontSize: 14 })
+			}
+		});
+
+		driver.setItem('settings', '{"dark":true}');
+		expect(storage.get<SettingsV3>('settings')).toEqual({ theme: 'dark', fontSize: 14 });
+		expect(JSON.parse(driver.getItem('settings') ?? '')).toEqual({ __lsu: 1, value: '{"theme":"dark","fontSize":14}', version: 3 });
+
+		storage.set<SettingsV3>('settings', { theme: 'light', fontSize: 12 });
+		expect(storage.get('settings')).toEqual({ theme: 'light', fontSize: 12 });
+	});
+	it('reports failed migrations', () => {
+		const onError = vi.fn();
+		const driver = new MemoryStorageDriver();
+		const storage = LocalStorageUtil.create({ driver, onError });
+		storage.registerMigrations('profile', { version: 3, migrations: { 2: (value: unknown) => value } });
+
+		driver.setItem('profile', '{"name":"a"}');
+		expect(storage.get('profile')).toBeNull();
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), { key: 'profile', value: { name: 'a' }, phase: 'migration' });
+		expect(driver.getItem('profile')).toBe('{"name":"a"}');
+	});
+	it('reports usage per key', () => {
+		const storage = LocalStorageUtil.create({ driver: new MemoryStorageDriver(), prefix: 'app' });
+		storage.set('a', 'xy');
+		storage.set('bb', 'z');
+		expect(storage.usage()).toEqual({ total: 28, keys: { a: 14, bb: 14 } });
+	});
+	it('returns a typed quota result and evicts least recently used keys', () => {
+		class LimitedDriver extends MemoryStorageDriver {
+			public setItem(key: string, value: string): void {
+				const used = this.keys()
+					.filter((existing) => existing !== key)
+					.reduce((sum, existing) => sum + (this.getItem(existing) ?? '').length, 0);
+				if (used + value.length > 10) throw new DOMException('full', 'QuotaExceededError');
+				super.setItem(key, value);
+			}
+		}
+		const onError = vi.fn();
+		const plain = LocalStorageUtil.create({ driver: new LimitedDriver(), onError });
+		expect(plain.set('a', 'x'.repeat(20))).toEqual({ ok: false, reason: 'quota', error: expect.any(DOMException), evicted: [] });
+		expect(onError).toHaveBeenCalledWith(expect.any(DOMException), expect.objectContaining({ key: 'a', phase: 'quota' }));
+
+		const lru = LocalStorageUtil.create({ driver: new LimitedDriver(), prefix: 'cache', eviction: 'lru', onError });
+		lru.set('a', 'aaa');
+		lru.set('b', 'bbb');
+		lru.get('a');
+		expect(lru.set('c', 'ccccc')).toEqual({ ok: true, evicted: ['b'] });
+		expect(lru.keys().sort()).toEqual(['a', 'c']);
+
+		expect(lru.set('huge', 'x'.repeat(20))).toEqual({ ok: false, reason: 'quota', error: expect.any(DOMException), evicted: [] });
+		expect(lru.getAll()).toEqual({ a: 'aaa', c: 'ccccc' });
+	});
+	it('turns on eviction for the static API', () => {
+		LocalStorageUtil.set('old', 'o');
+		const setItem = StorageDrivers.local.setItem.bind(StorageDrivers.local);
+		const spy = vi.spyOn(StorageDrivers.local, 'setItem').mockImplementation((key, value) => {
+			if (key === 'new' && window.localStorage.getItem('old') !== null) throw new DOMException('full', 'QuotaExceededError');
+			setItem(key, value);
+		});
+
+		LocalStorageUtil.setEviction('lru');
+		expect(LocalStorageUtil.set('new', 'n')).toEqual({ ok: true, evicted: ['old'] });
+		LocalStorageUtil.setEviction();
+		spy.mockRestore();
+	});
 });
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { ValueCodecs } from '../src/valueCodec/ValueCodec.js';
+
+describe('ValueCodecs', () => {
+	it('auto keeps strings raw and guesses on decode', () => {
+		expect(ValueCodecs.auto.encode('123')).toBe('123');
+		expect(ValueCodecs.auto.decode('123')).toBe(123);
+		expect(ValueCodecs.auto.decode('dark')).toBe('dark');
+	});
+	it('json round-trips numeric strings', () => {
+		const codec = ValueCodecs.json;
+		expect(codec.decode(codec.encode('123'))).toBe('123');
+		expect(codec.decode(codec.encode({ a: [1, 2] }))).toEqual({ a: [1, 2] });
+		expect(codec.decode('legacy')).toBe('legacy');
+	});
+	it('string codec never parses', () => {
+		expect(ValueCodecs.string.encode(42)).toBe('42');
+		expect(ValueCodecs.string.decode('{"a":1}')).toBe('{"a":1}');
+	});
+	it('typedJson round-trips Date, Map, Set, BigInt and undefined', () => {
+		const codec = ValueCodecs.typedJson;
+		const value = {
+			createdAt: new Date('2024-05-23T10:00:00.000Z'),
+			tags: new Set(['a', 'b']),
+			scores: new Map<string, bigint>([['x', 10n]]),
+			missing: undefined,
+			list: [undefined, 1n, new Date(0)]
+		};
+		const decoded = codec.decode(codec.encode(value)) as typeof value;
+		expect(decoded.createdAt).toBeInstanceOf(Date);
+		expect(decoded.createdAt.toISOString()).toBe('2024-05-23T10:00:00.000Z');
+		expect(decoded.tags).toEqual(new Set(['a', 'b']));
+		expect(decoded.scores.get('x')).toBe(10n);
+		expect('missing' in decoded).toBe(true);
+		expect(decoded.missing).toBeUndefined();
+		expect(decoded.list).toEqual([undefined, 1n, new Date(0)]);
+		expect(codec.decode(codec.encode(undefined))).toBeUndefined();
+	});
+	it('typedJson escapes objects that use the tag key', () => {
+		const codec = ValueCodecs.typedJson;
+		expect(codec.decode(codec.encode({ __t: 'Date', v: 1 }))).toEqual({ __t: 'Date', v: 1 });
+	});
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { Validation } from '../src/valueValidator/ValueValidator.js';
+
+describe('Validation', () => {
+	it('detects validators', () => {
+		expect(Validation.isValidator((value: unknown): value is string => typeof value === 'string')).toBe(true);
+		expect(Validation.isValidator({ parse: () => 1 })).toBe(true);
+		expect(Validation.isValidator({ safeParse: () => ({ success: true, data: 1 }) })).toBe(true);
+		expect(Validation.isValidator({ codec: {} })).toBe(false);
+		expect(Validation.isValidator(undefined)).toBe(false);
+	});
+	it('runs type guards', () => {
+		const isNumber = (value: unknown): value is number => typeof value === 'number';
+		expect(Validation.run(isNumber, 1)).toEqual({ success: true, data: 1 });
+		expect(Validation.run(isNumber, '1').success).toBe(false);
+	});
+	it('runs safeParse and parse schemas', () => {
+		const safe = { safeParse: (value: unknown) => (value === 'ok' ? { success: true as const, data: 'OK' } : { success: false as const, error: 'bad' }) };
+		expect(Validation.run(safe, 'ok')).toEqual({ success: true, data: 'OK' });
+		expect(Validation.run(safe, 'no')).toEqual({ success: false, error: 'bad' });
+
+		const error = new Error('invalid');
+		const strict = {
+			parse: (value: unknown) => {
+				if (typeof value !== 'string') throw error;
+				return value.trim();
+			}
+		};
+		expect(Validation.run(strict, ' a ')).toEqual({ success: true, data: 'a' });
+		expect(Validation.run(strict, 1)).toEqual({ success: false, error });
+	});
+});